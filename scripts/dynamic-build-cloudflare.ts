@@ -33,6 +33,8 @@ export function applyCloudflareWebSocketPatch(astroUpstreamDir: string, rootDir:
     const websocketDst = join(upstreamCloudflareDir, 'src/websocket')
     mkdirSync(websocketDst, { recursive: true })
     cpSync(websocketSrc, websocketDst, { recursive: true })
+    // The browser client is shared with the Node adapter
+    cpSync(join(rootDir, 'src/client'), join(upstreamCloudflareDir, 'src/client'), { recursive: true })
 
     // Step 3: Update upstream package.json
     console.log('📝 Step 3: Updating upstream package.json')
@@ -134,7 +136,7 @@ declare global {
 	namespace App {
 		interface Locals {
 			isUpgradeRequest?: boolean;
-			upgradeWebSocket?: () => { socket: import('./websocket/websocket.js').WebSocket, response: Response };
+			upgradeWebSocket?: (options?: import('./websocket/options.js').UpgradeWebSocketOptions) => { socket: import('./websocket/websocket.js').WebSocket, response: Response };
 			runtime?: {
 				env: any;
 				cf: any;
@@ -152,7 +154,24 @@ declare global {
     )
   }
 
-  // Add middleware setup
+  // Add the adapter-wide WebSocket options
+  if (!content.includes('websocket?:')) {
+    content = content.replace(
+      /export (type Options = |interface Options )\{/,
+      `export $1{
+	/**
+	 * Defaults applied to every WebSocket, such as the allowed origins.
+	 */
+	websocket?: import('./websocket/options.js').WebSocketAdapterOptions;`
+    )
+  }
+
+  // The name of the integration's options parameter
+  const optionsName = content.match(/export default function createIntegration\((\w+)/)?.[1] ?? 'args'
+
+  // Add middleware setup. The WebSocket options are passed to
+  // the middleware through a define, since the adapter's own
+  // options do not reach the code running in the worker.
   if (!content.includes('addMiddleware')) {
     if (content.includes("'astro:config:setup'")) {
       content = content.replace(
@@ -161,17 +180,67 @@ declare global {
 					addMiddleware({
 						entrypoint: '${packageName}/websocket/middleware.js',
 						order: 'pre'
+					});
+					updateConfig({
+						vite: {
+							define: {
+								__ZASTRO_WEBSOCKET_OPTIONS__: JSON.stringify(${optionsName}?.websocket ?? {})
+							}
+						}
 					});`
       )
     } else {
       content = content.replace(
         /hooks:\s*\{/,
         `hooks: {
-			'astro:config:setup': ({ addMiddleware }) => {
+			'astro:config:setup': ({ updateConfig, addMiddleware }) => {
 				addMiddleware({
 					entrypoint: '${packageName}/websocket/middleware.js',
 					order: 'pre'
 				});
+				updateConfig({
+					vite: {
+						define: {
+							__ZASTRO_WEBSOCKET_OPTIONS__: JSON.stringify(${optionsName}?.websocket ?? {})
+						}
+					}
+				});
+			},`
+      )
+    }
+  }
+
+  // In `astro dev`, the routes run in Node.js, so upgrade requests are
+  // passed to Astro and `WebSocketPair` is provided there. The dev
+  // middleware is added first, to wrap the WebSocket middleware.
+  if (!content.includes('websocket/dev-middleware.js')) {
+    content = content.replace(
+      /import type { AstroAdapter/,
+      `import { handleUpgradeRequests } from './websocket/dev-middleware.js';
+import type { AstroAdapter`
+    )
+    content = content.replace(
+      /^(\s*)'astro:config:setup': (async )?\(\{([^}]*)\}\) => \{/m,
+      (_, indent: string, async = '', params: string) => `${indent}'astro:config:setup': ${async}({ ${withParams(params, ['command', 'addMiddleware'])} }) => {
+${indent}	if (command === 'dev') {
+${indent}		addMiddleware({
+${indent}			entrypoint: '${packageName}/websocket/dev-middleware.js',
+${indent}			order: 'pre'
+${indent}		});
+${indent}	}`
+    )
+    if (content.includes("'astro:server:setup'")) {
+      content = content.replace(
+        /^(\s*)'astro:server:setup': (async )?\(\{([^}]*)\}\) => \{/m,
+        (_, indent: string, async = '', params: string) => `${indent}'astro:server:setup': ${async}({ ${withParams(params, ['server', 'logger'])} }) => {
+${indent}	handleUpgradeRequests(server, logger);`
+      )
+    } else {
+      content = content.replace(
+        /hooks:\s*\{/,
+        `hooks: {
+			'astro:server:setup': ({ server, logger }) => {
+				handleUpgradeRequests(server, logger);
 			},`
       )
     }
@@ -186,6 +255,17 @@ declare global {
   writeFileSync(filePath, content)
 }
 
+/**
+ * The parameters of a hook's destructured options, with the given names added
+ */
+function withParams(params: string, names: string[]): string {
+  const list = params.split(',').map(param => param.trim()).filter(Boolean)
+  for (const name of names) {
+    if (!list.includes(name)) list.push(name)
+  }
+  return list.join(', ')
+}
+
 // --- Package.json updates ---
 
 function updateUpstreamPackageJson(upstreamCloudflareDir: string): void {
@@ -198,6 +278,16 @@ function updateUpstreamPackageJson(upstreamCloudflareDir: string): void {
   packageJson.exports['./websocket/middleware.js'] = './dist/websocket/middleware.js'
   packageJson.exports['./websocket/websocket.js'] = './dist/websocket/websocket.js'
   packageJson.exports['./websocket/server.js'] = './dist/websocket/server.js'
+  packageJson.exports['./testing'] = './dist/websocket/testing.js'
+  packageJson.exports['./client'] = './dist/client/index.js'
+  packageJson.exports['./websocket/dev-middleware.js'] = './dist/websocket/dev-middleware.js'
+
+  // Add WebSocket dependencies, used by the dev server
+  if (!packageJson.dependencies) packageJson.dependencies = {}
+  packageJson.dependencies.ws = '^8.18.0'
+
+  if (!packageJson.devDependencies) packageJson.devDependencies = {}
+  packageJson.devDependencies['@types/ws'] = '^8.5.12'
 
   writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n')
   console.log('✅ Updated upstream package.json with websocket exports')
@@ -34,6 +34,7 @@ export function applyNodeWebSocketPatch(astroUpstreamDir: string, rootDir: strin
     applyTypesModifications(srcDir)
     applyIndexModifications(srcDir)
     applyServerModifications(srcDir)
+    applyPreviewModifications(srcDir)
 
     // Step 2: Copy WebSocket source files into upstream
     console.log('📁 Step 2: Copying WebSocket source files')
@@ -48,6 +49,8 @@ export function applyNodeWebSocketPatch(astroUpstreamDir: string, rootDir: strin
       cpSync(join(websocketDst, 'middleware'), middlewareDst, { recursive: true })
       rmSync(join(websocketDst, 'middleware'), { recursive: true })
     }
+    // The browser client is shared with the Cloudflare adapter
+    cpSync(join(rootDir, 'src/client'), join(srcDir, 'client'), { recursive: true })
 
     // Step 3: Update upstream package.json (add WS exports + deps)
     console.log('📝 Step 3: Updating upstream package.json')
@@ -152,7 +155,8 @@ function applyStandaloneModifications(srcDir: string) {
     content = content.replace(
       /import { createStaticHandler } from '\.\/serve-static\.js';/,
       `import { createStaticHandler } from './serve-static.js';
-import { createWebsocketHandler } from "./websocket/serve-websocket.js";`
+import { createWebsocketHandler } from "./websocket/serve-websocket.js";
+import { handleShutdownSignals } from "./websocket/shutdown.js";`
     )
   }
 
@@ -160,7 +164,8 @@ import { createWebsocketHandler } from "./websocket/serve-websocket.js";`
     content = content.replace(
       /const server = createServer\(handler, host, port\);/,
       `const server = createServer(handler, host, port);
-	server.server.on("upgrade", createWebsocketHandler(app))`
+	server.server.on("upgrade", createWebsocketHandler(app, options.websocket))
+	handleShutdownSignals(server.server, options.websocket?.shutdown)`
     )
   }
 
@@ -181,6 +186,19 @@ function applyTypesModifications(srcDir: string) {
     'locals?: { [key: string]: any },'
   )
 
+  // Add the adapter-wide WebSocket options
+  if (!content.includes('websocket?:')) {
+    content = content.replace(
+      /(\s+)mode: 'middleware' \| 'standalone';/,
+      `$1mode: 'middleware' | 'standalone';
+$1/**
+$1 * Defaults applied to every WebSocket, such as the heartbeat.
+$1 * Routes can override them through \`locals.upgradeWebSocket(options)\`.
+$1 */
+$1websocket?: import('./websocket/options.js').WebSocketAdapterOptions;`
+    )
+  }
+
   writeFileSync(filePath, content)
 }
 
@@ -195,7 +213,7 @@ function applyIndexModifications(srcDir: string) {
   if (!content.includes('websocket/dev-middleware.js')) {
     content = content.replace(
       /import type { AstroAdapter/,
-      `import { onRequest } from './websocket/dev-middleware.js'
+      `import { onRequest, handleUpgradeRequests, setDevRoutes } from './websocket/dev-middleware.js'
 import type { AstroAdapter`
     )
   }
@@ -207,7 +225,7 @@ declare global {
 	namespace App {
 		interface Locals {
 			isUpgradeRequest?: boolean
-			upgradeWebSocket?: () => { socket: import('./websocket/websocket.js').WebSocket, response: import('./websocket/response.js').UpgradeResponse }
+			upgradeWebSocket?: (options?: import('./websocket/options.js').UpgradeWebSocketOptions) => { socket: import('./websocket/websocket.js').WebSocket, response: import('./websocket/response.js').UpgradeResponse }
 		}
 	}
 }
@@ -223,22 +241,51 @@ declare global {
   content = content.replace(/serverEntrypoint: '@astrojs\/node\/server\.js'/g, `serverEntrypoint: '${packageName}/server.js'`)
   content = content.replace(/previewEntrypoint: '@astrojs\/node\/preview\.js'/g, `previewEntrypoint: '${packageName}/preview.js'`)
 
+  // Re-export the upgrade handler from the server entrypoint, for the middleware mode
+  if (!content.includes("'websocketHandler'")) {
+    content = content.replace(
+      /exports: \['handler', 'startServer', 'options'\]/,
+      "exports: ['handler', 'startServer', 'options', 'websocketHandler']"
+    )
+  }
+
   // Add middleware setup
   if (!content.includes('addMiddleware')) {
     content = content.replace(
       /'astro:config:setup': async \(\{ updateConfig, config, logger \}\) => \{/,
-      `'astro:config:setup': async ({ updateConfig, config, logger, addMiddleware }) => {
+      `'astro:config:setup': async ({ updateConfig, config, logger, addMiddleware, injectRoute }) => {
 				addMiddleware({
 					entrypoint: '${packageName}/websocket/dev-middleware.js',
 					order: 'pre'
-				});`
+				});
+				if (userOptions.websocket?.metricsRoute) {
+					injectRoute({
+						pattern: userOptions.websocket.metricsRoute,
+						entrypoint: '${packageName}/metrics',
+						prerender: false
+					});
+				}`
+    )
+  }
+
+  // Hook upgrade requests into the dev server
+  if (!content.includes('astro:server:setup')) {
+    content = content.replace(
+      /'astro:config:done':/,
+      `'astro:routes:resolved': ({ routes }) => {
+				setDevRoutes(routes);
+			},
+			'astro:server:setup': ({ server, logger }) => {
+				handleUpgradeRequests(server, userOptions.websocket, logger);
+			},
+			'astro:config:done':`
     )
   }
 
   writeFileSync(filePath, content)
 }
 
-function applyServerModifications(srcDir: string) {
+export function applyServerModifications(srcDir: string) {
   const filePath = join(srcDir, 'server.ts')
   if (!existsSync(filePath)) return
   let content = readFileSync(filePath, 'utf-8')
@@ -258,7 +305,7 @@ import { createWebsocketHandler } from './websocket/serve-websocket.js';`
 		options: options,
 		handler: options.mode === 'middleware' ? createMiddleware(app, options) : createStandaloneHandler(app, options),
 		startServer: () => startServer(app, options),
-		websocketHandler: createWebsocketHandler(app)
+		websocketHandler: createWebsocketHandler(app, options.websocket)
 	};`
     )
   }
@@ -267,6 +314,39 @@ import { createWebsocketHandler } from './websocket/serve-websocket.js';`
   console.log('✅ Added WebSocket support to server.ts')
 }
 
+export function applyPreviewModifications(srcDir: string) {
+  const filePath = join(srcDir, 'preview.ts')
+  if (!existsSync(filePath)) return
+  let content = readFileSync(filePath, 'utf-8')
+
+  // Take the upgrade handler from the server entrypoint, which
+  // exports it since 'websocketHandler' was added to the adapter's exports
+  if (!content.includes('websocketHandler')) {
+    content = content.replace(
+      /^([ \t]*)let options: ServerModule\['options'\];/m,
+      `$1let options: ServerModule['options'];
+$1let websocketHandler: ServerModule['websocketHandler'] | undefined;`
+    )
+    content = content.replace(
+      /^([ \t]*)options = ssrModule\.options!;/m,
+      `$1options = ssrModule.options!;
+$1websocketHandler = ssrModule.websocketHandler;`
+    )
+    content = content.replace(
+      /^([ \t]*)const server = createServer\(ssrHandler, host, port\);/m,
+      `$1const server = createServer(ssrHandler, host, port);
+$1if (websocketHandler) server.server.on('upgrade', websocketHandler);`
+    )
+  }
+
+  writeFileSync(filePath, content)
+  if (content.includes("server.server.on('upgrade', websocketHandler)")) {
+    console.log('✅ Added WebSocket support to preview.ts')
+  } else {
+    console.warn('⚠️ Could not add WebSocket support to preview.ts, upgrades will not work in astro preview')
+  }
+}
+
 // --- Package.json updates ---
 
 function updateUpstreamPackageJson(upstreamNodeDir: string): void {
@@ -283,6 +363,31 @@ function updateUpstreamPackageJson(upstreamNodeDir: string): void {
   packageJson.exports['./websocket/serve-websocket.js'] = './dist/websocket/serve-websocket.js'
   packageJson.exports['./websocket/attach.js'] = './dist/websocket/attach.js'
   packageJson.exports['./websocket/stats.js'] = './dist/websocket/stats.js'
+  packageJson.exports['./connection-manager'] = './dist/websocket/connection-manager.js'
+  packageJson.exports['./websocket/connection-manager.js'] = './dist/websocket/connection-manager.js'
+  packageJson.exports['./websocket/options.js'] = './dist/websocket/options.js'
+  packageJson.exports['./websocket/streams.js'] = './dist/websocket/streams.js'
+  packageJson.exports['./rooms'] = './dist/websocket/rooms.js'
+  packageJson.exports['./websocket/rooms.js'] = './dist/websocket/rooms.js'
+  packageJson.exports['./broker'] = './dist/websocket/broker.js'
+  packageJson.exports['./websocket/broker.js'] = './dist/websocket/broker.js'
+  packageJson.exports['./cluster-broker'] = './dist/websocket/cluster-broker.js'
+  packageJson.exports['./websocket/cluster-broker.js'] = './dist/websocket/cluster-broker.js'
+  packageJson.exports['./metrics'] = './dist/websocket/metrics.js'
+  packageJson.exports['./websocket/metrics.js'] = './dist/websocket/metrics.js'
+  packageJson.exports['./websocket/prometheus.js'] = './dist/websocket/prometheus.js'
+  packageJson.exports['./tracing'] = './dist/websocket/tracing.js'
+  packageJson.exports['./websocket/tracing.js'] = './dist/websocket/tracing.js'
+  packageJson.exports['./websocket/origin.js'] = './dist/websocket/origin.js'
+  packageJson.exports['./shutdown'] = './dist/websocket/shutdown.js'
+  packageJson.exports['./websocket/shutdown.js'] = './dist/websocket/shutdown.js'
+  packageJson.exports['./session'] = './dist/websocket/session.js'
+  packageJson.exports['./websocket/session.js'] = './dist/websocket/session.js'
+  packageJson.exports['./upgrade'] = './dist/websocket/attach-upgrade.js'
+  packageJson.exports['./websocket/attach-upgrade.js'] = './dist/websocket/attach-upgrade.js'
+  packageJson.exports['./testing'] = './dist/websocket/testing.js'
+  packageJson.exports['./websocket/testing.js'] = './dist/websocket/testing.js'
+  packageJson.exports['./client'] = './dist/client/index.js'
 
   // Add WebSocket dependencies
   if (!packageJson.dependencies) packageJson.dependencies = {}
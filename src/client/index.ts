@@ -0,0 +1,9 @@
+export {
+    ReconnectingWebSocket,
+    NON_RETRYABLE_CLOSE_CODES,
+    type ReconnectingWebSocketOptions,
+    type BackoffOptions,
+    type HeartbeatOptions,
+    type ConnectionStatus,
+} from "./reconnecting-websocket.js"
+export { createSocketStore, type SocketStore, type SocketState } from "./store.js"
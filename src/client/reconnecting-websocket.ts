@@ -0,0 +1,365 @@
+export type ConnectionStatus = "connecting" | "open" | "reconnecting" | "closed"
+
+type SendData = string | ArrayBufferLike | Blob | ArrayBufferView
+
+export interface BackoffOptions {
+    /**
+     * Milliseconds before the first reconnect attempt.
+     * @default 500
+     */
+    initialDelay?: number
+    /**
+     * Upper bound of the delay between attempts.
+     * @default 30000
+     */
+    maxDelay?: number
+    /**
+     * Factor the delay grows by after each failed attempt.
+     * @default 2
+     */
+    factor?: number
+    /**
+     * Fraction of each delay that is randomized, so that clients
+     * disconnected at once do not all reconnect at once.
+     * @default 0.5
+     */
+    jitter?: number
+}
+
+export interface HeartbeatOptions {
+    /**
+     * Milliseconds between heartbeats.
+     */
+    interval: number
+    /**
+     * Milliseconds to wait for any message from the server after a
+     * heartbeat, before the connection is considered dead and replaced.
+     * @default interval
+     */
+    timeout?: number
+    /**
+     * Sent at each heartbeat, for a server that answers it. Without it,
+     * the client relies on the server sending messages on its own.
+     */
+    message?: string | (() => string)
+}
+
+export interface ReconnectingWebSocketOptions {
+    /** Subprotocols offered to the server, in order of preference */
+    protocols?: string | string[]
+    backoff?: BackoffOptions
+    /**
+     * Reconnect attempts in a row before giving up.
+     * @default Infinity
+     */
+    maxRetries?: number
+    /**
+     * Whether to reconnect after the connection closed. By default,
+     * the close codes in `NON_RETRYABLE_CLOSE_CODES` are not retried.
+     */
+    shouldReconnect?(event: CloseEvent): boolean
+    /**
+     * Messages sent while the connection is down are queued, and sent
+     * once it is back. Beyond this number, the oldest are discarded.
+     * @default 100
+     */
+    maxQueuedMessages?: number
+    /**
+     * Detects connections that died without being closed, which
+     * browsers otherwise take minutes to notice. Off by default.
+     */
+    heartbeat?: HeartbeatOptions
+    /**
+     * Resumes the sessions of routes that use the `session` option of
+     * `upgradeWebSocket()`, so that no message is lost while reconnecting.
+     * @default true
+     */
+    resumeSessions?: boolean
+    /** The WebSocket implementation, for runtimes without a global one */
+    WebSocket?: typeof WebSocket
+}
+
+/**
+ * Close codes after which reconnecting would fail the same way:
+ * - 1000: the server is done with the client
+ * - 1002, 1003, 1007, 1009, 1010: the client sent something the server does not accept
+ * - 1008: the client violated a policy, such as the rate limit
+ *
+ * Codes like 1001 and 1012, sent when the server shuts down or
+ * restarts, and 1006, when a heartbeat times out, are retried.
+ */
+export const NON_RETRYABLE_CLOSE_CODES: readonly number[] = [1000, 1002, 1003, 1007, 1008, 1009, 1010]
+
+const SESSION_TOKEN_PARAM = "ws-session"
+const SESSION_ACK_PARAM = "ws-ack"
+const SESSION_MESSAGE_PREFIX = "{\"type\":\"zastro:session\""
+
+const OPEN = 1
+
+/**
+ * A WebSocket that reconnects when the connection drops, with
+ * exponential backoff, and queues what is sent in the meantime.
+ *
+ * Dispatches "open", "message", "error" and "close" for each
+ * connection, "reconnecting" before each attempt, with the attempt
+ * and its delay as `detail`, "session" when a session starts or
+ * resumes, and "statuschange" when `status` changes.
+ */
+export class ReconnectingWebSocket<Incoming = unknown, Outgoing = unknown> extends EventTarget {
+    #url: string | (() => string | URL)
+    #options: ReconnectingWebSocketOptions
+    #ws: WebSocket | undefined
+    #status: ConnectionStatus = "connecting"
+    #attempt = 0
+    #queue: SendData[] = []
+    #reconnectTimer: ReturnType<typeof setTimeout> | undefined
+    #heartbeatTimer: ReturnType<typeof setInterval> | undefined
+    #receivedAt = 0
+    #sessionToken: string | undefined
+    #sessionSeq = 0
+
+    onopen: ((event: Event) => void) | null = null
+    onmessage: ((event: MessageEvent) => void) | null = null
+    onerror: ((event: Event) => void) | null = null
+    onclose: ((event: CloseEvent) => void) | null = null
+
+    /**
+     * @param url Relative URLs are resolved against the page, with
+     * `http` replaced by `ws`. A function is called before each
+     * attempt, for example to refresh a token.
+     */
+    constructor(url: string | URL | (() => string | URL), options: ReconnectingWebSocketOptions = {}) {
+        super()
+        this.#url = url instanceof URL ? url.href : url
+        this.#options = options
+        globalThis.addEventListener?.("online", this.#onOnline)
+        this.#connect()
+    }
+
+    get status(): ConnectionStatus {
+        return this.#status
+    }
+
+    /** Reconnect attempts since the last successful connection */
+    get attempt(): number {
+        return this.#attempt
+    }
+
+    /** The subprotocol selected by the server for the current connection */
+    get protocol(): string {
+        return this.#ws?.protocol ?? ""
+    }
+
+    get queuedMessages(): number {
+        return this.#queue.length
+    }
+
+    /**
+     * Sends the message, or queues it while the connection
+     * is down. Messages sent after `close()` are discarded.
+     */
+    send(data: SendData): void {
+        if (this.#status === "closed") return
+        if (this.#ws?.readyState === OPEN) return this.#ws.send(data)
+        const { maxQueuedMessages = 100 } = this.#options
+        this.#queue.push(data)
+        if (this.#queue.length > maxQueuedMessages) this.#queue.shift()
+    }
+
+    sendJSON(data: Outgoing): void {
+        this.send(JSON.stringify(data))
+    }
+
+    /**
+     * Calls `listener` with each text message that parses
+     * as JSON. Returns a function that removes it.
+     */
+    onJSON(listener: (data: Incoming) => void): () => void {
+        const onMessage = (event: Event) => {
+            const { data } = event as MessageEvent
+            if (typeof data !== "string") return
+            let parsed: Incoming
+            try {
+                parsed = JSON.parse(data)
+            } catch {
+                return
+            }
+            listener(parsed)
+        }
+        this.addEventListener("message", onMessage)
+        return () => this.removeEventListener("message", onMessage)
+    }
+
+    /**
+     * Closes the connection for good, which also
+     * ends the session, and discards the queue.
+     */
+    close(code = 1000, reason?: string): void {
+        if (this.#status === "closed") return
+        this.#queue = []
+        this.#sessionToken = undefined
+        this.#stop()
+        this.#ws?.close(code, reason)
+    }
+
+    /**
+     * Replaces the connection right away, without waiting
+     * for the delay, for example when the page is shown again.
+     */
+    reconnect(): void {
+        if (this.#status === "closed") return
+        clearTimeout(this.#reconnectTimer)
+        this.#abandon()
+        this.#connect()
+    }
+
+    #connect() {
+        const WebSocketImpl = this.#options.WebSocket ?? WebSocket
+        const ws = new WebSocketImpl(this.#resolveUrl(), this.#options.protocols)
+        ws.binaryType = "arraybuffer"
+        this.#ws = ws
+        if (this.#status !== "connecting") this.#setStatus("reconnecting")
+
+        ws.onopen = () => {
+            this.#attempt = 0
+            this.#receivedAt = Date.now()
+            this.#setStatus("open")
+            this.#startHeartbeat()
+            for (const data of this.#queue.splice(0)) ws.send(data)
+            this.#dispatch(new Event("open"), this.onopen)
+        }
+
+        ws.onmessage = event => {
+            this.#receivedAt = Date.now()
+            if (this.#handleSessionMessage(event.data)) return
+            this.#dispatch(new MessageEvent("message", { data: event.data }), this.onmessage)
+        }
+
+        ws.onerror = () => {
+            this.#dispatch(new Event("error"), this.onerror)
+        }
+
+        ws.onclose = event => {
+            this.#ws = undefined
+            this.#stopHeartbeat()
+            // The server ends the session of a clean close
+            if (event.code === 1000) this.#sessionToken = undefined
+            const closeEvent = createCloseEvent(event)
+            this.#dispatch(closeEvent, this.onclose)
+            if (this.#status === "closed") return
+            if (this.#shouldReconnect(closeEvent)) this.#scheduleReconnect()
+            else this.#stop()
+        }
+    }
+
+    #shouldReconnect(event: CloseEvent): boolean {
+        const { maxRetries = Infinity, shouldReconnect } = this.#options
+        if (this.#attempt >= maxRetries) return false
+        if (shouldReconnect) return shouldReconnect(event)
+        return !NON_RETRYABLE_CLOSE_CODES.includes(event.code)
+    }
+
+    #scheduleReconnect() {
+        const { initialDelay = 500, maxDelay = 30_000, factor = 2, jitter = 0.5 } = this.#options.backoff ?? {}
+        const delay = Math.round(Math.min(maxDelay, initialDelay * factor ** this.#attempt) * (1 - jitter * Math.random()))
+        this.#attempt++
+        this.#setStatus("reconnecting")
+        this.dispatchEvent(new CustomEvent("reconnecting", { detail: { attempt: this.#attempt, delay } }))
+        this.#reconnectTimer = setTimeout(() => this.#connect(), delay)
+    }
+
+    /**
+     * Takes the control message that starts each connection of a session
+     * out of the stream, and counts the messages after it, so that the
+     * next connection can tell the server which ones it missed.
+     */
+    #handleSessionMessage(data: unknown): boolean {
+        if (this.#options.resumeSessions === false) return false
+        if (typeof data === "string" && data.startsWith(SESSION_MESSAGE_PREFIX)) {
+            const { token, seq, resumed } = JSON.parse(data) as { token: string, seq: number, resumed: boolean }
+            this.#sessionToken = token
+            this.#sessionSeq = seq
+            this.dispatchEvent(new CustomEvent("session", { detail: { resumed } }))
+            return true
+        }
+        if (this.#sessionToken !== undefined) this.#sessionSeq++
+        return false
+    }
+
+    #resolveUrl(): string {
+        const url = new URL(typeof this.#url === "function" ? this.#url() : this.#url, globalThis.location?.href)
+        if (url.protocol === "http:") url.protocol = "ws:"
+        if (url.protocol === "https:") url.protocol = "wss:"
+        if (this.#sessionToken !== undefined) {
+            url.searchParams.set(SESSION_TOKEN_PARAM, this.#sessionToken)
+            url.searchParams.set(SESSION_ACK_PARAM, String(this.#sessionSeq))
+        }
+        return url.href
+    }
+
+    #startHeartbeat() {
+        const { heartbeat } = this.#options
+        if (!heartbeat) return
+        const { interval, timeout = interval, message } = heartbeat
+        let sentAt = Date.now()
+        this.#heartbeatTimer = setInterval(() => {
+            const now = Date.now()
+            const answered = this.#receivedAt >= sentAt
+            if (answered && now - sentAt >= interval) {
+                sentAt = now
+                if (message !== undefined) this.#ws?.send(typeof message === "function" ? message() : message)
+            } else if (!answered && now - sentAt >= timeout) {
+                // Closing a half-open connection waits for a close
+                // frame that never comes, so it is abandoned instead.
+                this.#abandon()
+                const closeEvent = createCloseEvent({ code: 1006, reason: "Heartbeat timeout", wasClean: false })
+                this.#dispatch(closeEvent, this.onclose)
+                if (this.#status === "closed") return
+                if (this.#shouldReconnect(closeEvent)) this.#scheduleReconnect()
+                else this.#stop()
+            }
+        }, Math.min(interval, timeout) / 2)
+    }
+
+    #stopHeartbeat() {
+        clearInterval(this.#heartbeatTimer)
+    }
+
+    #abandon() {
+        const ws = this.#ws
+        if (!ws) return
+        this.#ws = undefined
+        this.#stopHeartbeat()
+        ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null
+        ws.close()
+    }
+
+    #stop() {
+        clearTimeout(this.#reconnectTimer)
+        this.#stopHeartbeat()
+        globalThis.removeEventListener?.("online", this.#onOnline)
+        this.#setStatus("closed")
+    }
+
+    #onOnline = () => {
+        // No point in waiting for the delay once the network is back
+        if (this.#status === "reconnecting") this.reconnect()
+    }
+
+    #setStatus(status: ConnectionStatus) {
+        if (this.#status === status) return
+        this.#status = status
+        this.dispatchEvent(new Event("statuschange"))
+    }
+
+    #dispatch<E extends Event>(event: E, handler: ((event: E) => void) | null) {
+        handler?.call(this, event)
+        this.dispatchEvent(event)
+    }
+}
+
+function createCloseEvent({ code, reason, wasClean }: Pick<CloseEvent, "code" | "reason" | "wasClean">): CloseEvent {
+    if (typeof CloseEvent === "function") return new CloseEvent("close", { code, reason, wasClean })
+    // For runtimes that lack CloseEvent, like Node.js before 23
+    return Object.assign(new Event("close"), { code, reason, wasClean }) as CloseEvent
+}
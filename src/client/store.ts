@@ -0,0 +1,77 @@
+import type { ConnectionStatus, ReconnectingWebSocket } from "./reconnecting-websocket.js"
+
+export interface SocketState<Incoming> {
+    status: ConnectionStatus
+    /** Reconnect attempts since the last successful connection */
+    attempt: number
+    /** The latest JSON message received */
+    data: Incoming | undefined
+}
+
+/**
+ * Follows the Svelte store contract, which nanostores and Solid
+ * accept as well, and `get()` and `subscribe()` can be passed to
+ * React's `useSyncExternalStore()`.
+ */
+export interface SocketStore<Incoming> {
+    get(): SocketState<Incoming>
+    /**
+     * Calls `listener` with the current state, then with each
+     * change. Returns a function that removes it.
+     */
+    subscribe(listener: (state: SocketState<Incoming>) => void): () => void
+}
+
+/**
+ * Exposes the status of a socket, and the latest JSON message it
+ * received, to the UI framework of an island. The state is replaced
+ * rather than mutated, so that frameworks can compare it by identity.
+ */
+export function createSocketStore<Incoming>(socket: ReconnectingWebSocket<Incoming, any>): SocketStore<Incoming> {
+    const listeners = new Set<(state: SocketState<Incoming>) => void>()
+    let state: SocketState<Incoming> = { status: socket.status, attempt: socket.attempt, data: undefined }
+    let stopListening: (() => void) | undefined
+
+    function update(changes: Partial<SocketState<Incoming>>) {
+        state = { ...state, ...changes }
+        for (const listener of listeners) listener(state)
+    }
+
+    function onStatusChange() {
+        if (state.status === socket.status && state.attempt === socket.attempt) return
+        update({ status: socket.status, attempt: socket.attempt })
+    }
+
+    // Listens to the socket only while subscribed to,
+    // so that unmounted islands do not leak listeners.
+    function listen() {
+        socket.addEventListener("statuschange", onStatusChange)
+        socket.addEventListener("reconnecting", onStatusChange)
+        const offJSON = socket.onJSON(data => update({ data }))
+        stopListening = () => {
+            socket.removeEventListener("statuschange", onStatusChange)
+            socket.removeEventListener("reconnecting", onStatusChange)
+            offJSON()
+        }
+    }
+
+    return {
+        get() {
+            // Unchanged states are the same object, as React requires
+            if (listeners.size === 0) onStatusChange()
+            return state
+        },
+        subscribe(listener) {
+            if (listeners.size === 0) {
+                listen()
+                onStatusChange()
+            }
+            listeners.add(listener)
+            listener(state)
+            return () => {
+                listeners.delete(listener)
+                if (listeners.size === 0) stopListening?.()
+            }
+        },
+    }
+}
@@ -0,0 +1,252 @@
+/**
+ * Cloudflare WebSocket support for `astro dev`
+ *
+ * The dev server runs the routes in Node.js, where `WebSocketPair`
+ * does not exist, and its upgrade requests only reach Vite. Here,
+ * they are rendered by Astro like any other request, and the pair
+ * the route creates is connected to the request with `ws` once the
+ * route returns its 101 response.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { Readable, type Duplex } from 'node:stream'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import { pipeline } from 'node:stream/promises'
+import * as ws from 'ws'
+import type { APIContext, AstroIntegration, AstroIntegrationLogger, MiddlewareNext } from 'astro'
+import { CloseEvent } from './websocket.js'
+
+type ViteDevServer = Parameters<NonNullable<AstroIntegration['hooks']['astro:server:setup']>>[0]['server']
+
+type AstroDevHandler = (req: IncomingMessage, res: ServerResponse) => void
+
+type UpgradeRequest = [req: IncomingMessage, socket: Duplex, head: Buffer]
+
+/**
+ * Vite loads the middleware separately from the integration,
+ * so the state they share is kept on globalThis.
+ */
+const devGlobals = globalThis as typeof globalThis & {
+  __cloudflareUpgradeRequests?: AsyncLocalStorage<UpgradeRequest>
+  __cloudflareServerEnds?: WeakMap<object, DevWebSocket>
+}
+
+// The upgrade request being rendered
+const upgradeRequests = devGlobals.__cloudflareUpgradeRequests ??= new AsyncLocalStorage()
+
+// The server end of each pair, by its client end
+const serverEnds = devGlobals.__cloudflareServerEnds ??= new WeakMap()
+
+// The headers of the route's 101 response, by request
+const handshakes = new WeakMap<IncomingMessage, Headers>()
+
+/**
+ * Headers that `ws` writes itself as part of the
+ * handshake, or that have no meaning on a 101 response.
+ */
+const RESERVED_HEADERS = new Set([
+  'connection',
+  'content-length',
+  'content-type',
+  'sec-websocket-accept',
+  'sec-websocket-extensions',
+  'sec-websocket-protocol',
+  'transfer-encoding',
+  'upgrade',
+])
+
+/**
+ * One end of a `WebSocketPair` in `astro dev`. The server end is
+ * connected to the browser once the handshake completes, and holds
+ * what is sent to it until then, as workerd does until the client
+ * end is returned. Events are held until `accept()` is called.
+ */
+class DevWebSocket extends EventTarget {
+  readyState = 1
+  readonly url = ''
+  private _ws: ws.WebSocket | undefined
+  private _accepted = false
+  private _held: Event[] = []
+  private _pendingMessages: (string | ArrayBufferLike | ArrayBufferView)[] = []
+  private _pendingClose: [code?: number, reason?: string] | undefined
+
+  accept() {
+    this._accepted = true
+    for (const event of this._held.splice(0)) this.dispatchEvent(event)
+  }
+
+  send(data: string | ArrayBufferLike | ArrayBufferView) {
+    if (this.readyState !== 1) throw new TypeError('The WebSocket is not open.')
+    if (this._ws) this._ws.send(data)
+    else this._pendingMessages.push(data)
+  }
+
+  close(code?: number, reason?: string) {
+    if (this.readyState !== 1) return
+    this.readyState = 2
+    if (this._ws) this._ws.close(code, reason)
+    else this._pendingClose = [code, reason]
+  }
+
+  /**
+   * Connects the socket to the browser's connection,
+   * and sends what was held for it
+   */
+  connect(connection: ws.WebSocket) {
+    this._ws = connection
+    connection.binaryType = 'arraybuffer'
+    connection.on('message', (data: ArrayBuffer, isBinary) => {
+      this._dispatch(new MessageEvent('message', { data: isBinary ? data : Buffer.from(data).toString() }))
+    })
+    connection.on('close', (code, reason) => this._closed(code, reason.toString()))
+    connection.on('error', () => this._dispatch(new Event('error')))
+    for (const data of this._pendingMessages.splice(0)) connection.send(data)
+    if (this._pendingClose) connection.close(...this._pendingClose)
+  }
+
+  /**
+   * Closes the socket with 1006 when the
+   * browser's connection never completes
+   */
+  abort() {
+    if (!this._ws) this._closed(1006, '')
+  }
+
+  private _closed(code: number, reason: string) {
+    if (this.readyState === 3) return
+    this.readyState = 3
+    this._dispatch(new CloseEvent('close', { code, reason, wasClean: code !== 1006 }))
+  }
+
+  private _dispatch(event: Event) {
+    if (this._accepted) this.dispatchEvent(event)
+    else this._held.push(event)
+  }
+}
+
+class DevWebSocketPair {
+  0: DevWebSocket
+  1: DevWebSocket
+
+  constructor() {
+    this[0] = new DevWebSocket()
+    this[1] = new DevWebSocket()
+    serverEnds.set(this[0], this[1])
+  }
+}
+
+/**
+ * Registered ahead of the adapter's middleware in `astro dev`.
+ *
+ * For the requests passed on by `handleUpgradeRequests()`, completes
+ * the handshake when the route returns the 101 response of its pair,
+ * and otherwise sends the route's response as the rejection.
+ */
+export const onRequest = async function cloudflareWebSocketDevMiddleware(
+  _context: APIContext,
+  next: MiddlewareNext
+): Promise<Response> {
+  const upgradeRequest = upgradeRequests.getStore()
+  if (upgradeRequest === undefined) return next()
+  const [req, socket, head] = upgradeRequest
+
+  let response: Response
+  try {
+    response = await next()
+  } catch (error) {
+    await writeResponseToSocket(socket, new Response(null, { status: 500 }))
+    throw error
+  }
+
+  const client = (response as Response & { webSocket?: object }).webSocket
+  const serverEnd = response.status === 101 && client ? serverEnds.get(client) : undefined
+  if (serverEnd) {
+    handshakes.set(req, response.headers)
+    const abort = () => serverEnd.abort()
+    socket.once('close', abort)
+    getServer().handleUpgrade(req, socket, head, connection => {
+      socket.off('close', abort)
+      serverEnd.connect(connection)
+    })
+  } else {
+    await writeResponseToSocket(socket, response)
+  }
+
+  // Astro writes the response into a fake response object,
+  // so it only ends up logged with its status
+  return response
+}
+
+let server: ws.WebSocketServer | undefined
+
+function getServer() {
+  if (server) return server
+  server = new ws.WebSocketServer({
+    noServer: true,
+    clientTracking: false,
+    handleProtocols: (_offered, req) => handshakes.get(req)?.get('sec-websocket-protocol') ?? false,
+  })
+  server.on('headers', (lines, req) => {
+    new Headers(handshakes.get(req)).forEach((value, name) => {
+      if (!RESERVED_HEADERS.has(name)) lines.push(`${name}: ${value}`)
+    })
+  })
+  return server
+}
+
+async function writeResponseToSocket(socket: Duplex, response: Response) {
+  let head = `HTTP/1.1 ${response.status} ${response.statusText}\r\n`
+  // Reconstructing the headers validates them
+  new Headers(response.headers).forEach((value, name) => {
+    head += `${name}: ${value}\r\n`
+  })
+  socket.on('error', console.error)
+  socket.write(head + '\r\n')
+  // Astro reads the body too, so a clone is sent
+  if (response.body) await pipeline(Readable.fromWeb(response.clone().body as NodeReadableStream), socket)
+  else socket.end()
+}
+
+/**
+ * Provides `WebSocketPair` to the routes, and passes the upgrade
+ * requests of the dev server, other than Vite's own, to Astro.
+ */
+export function handleUpgradeRequests(viteDevServer: ViteDevServer, logger?: AstroIntegrationLogger) {
+  globalThis.WebSocketPair ??= DevWebSocketPair as unknown as typeof WebSocketPair
+
+  /**
+   * Astro adds its handler after the integrations' hooks run,
+   * so it is looked up on the first upgrade, by its name.
+   */
+  let astroDevHandler: AstroDevHandler | undefined
+  function findAstroDevHandler() {
+    return astroDevHandler ??= viteDevServer.middlewares.stack
+      .find(stackItem => 'name' in stackItem.handle && stackItem.handle.name === 'astroDevHandler')
+      ?.handle as AstroDevHandler | undefined
+  }
+
+  const httpServer = viteDevServer.httpServer as import('node:http').Server | null
+  httpServer?.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (req.headers['sec-websocket-protocol'] === 'vite-hmr') return
+
+    const astroDevHandler = findAstroDevHandler()
+    if (!astroDevHandler) {
+      const message = 'WebSocket upgrades cannot be handled, because Astro\'s request handler ("astroDevHandler") was not found among the Vite dev server\'s middlewares. This version of Astro may not be supported yet.'
+      if (logger) logger.error(message)
+      else console.error(`[WebSocket] ${message}`)
+      writeResponseToSocket(socket, new Response(message, { status: 500, headers: { 'Content-Type': 'text/plain' } }))
+      return
+    }
+
+    upgradeRequests.run([req, socket, head], astroDevHandler, req, fakeResponse)
+  })
+}
+
+const fakeResponse = {
+  setHeader() {},
+  write() {},
+  writeHead() {},
+  end() {},
+  on() {},
+} as any as ServerResponse
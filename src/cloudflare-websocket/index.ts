@@ -3,5 +3,10 @@
  */
 
 export { WebSocket, attach, ErrorEvent, CloseEvent } from './websocket.js'
+export { WebSocketError } from './streams.js'
+export { rooms, type PublishOptions } from './rooms.js'
 export { onRequest } from './middleware.js'
 export { createWebSocketHandler } from './server.js'
+export { selectProtocol, type ProtocolSelector } from './protocol.js'
+export { isOriginAllowed, type AllowedOrigins, type OriginMatcher } from './origin.js'
+export type { UpgradeWebSocketOptions, WebSocketAdapterOptions } from './options.js'
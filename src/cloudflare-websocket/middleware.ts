@@ -3,6 +3,10 @@
  */
 
 import { WebSocket, attach } from './websocket.js'
+import { createProtocolRejectionResponse, selectProtocol } from './protocol.js'
+import { createOriginRejectionResponse, isOriginAllowed } from './origin.js'
+import { getAdapterOptions, type UpgradeWebSocketOptions } from './options.js'
+import { createUpgradeResponse } from './response.js'
 
 // Cloudflare Workers type declarations
 declare global {
@@ -27,14 +31,9 @@ declare global {
   }
 }
 
-// Extend ResponseInit to include Cloudflare's webSocket property
-interface CloudflareResponseInit extends ResponseInit {
-  webSocket?: CloudflareWebSocket
-}
-
 export interface CloudflareLocals {
   isUpgradeRequest: boolean
-  upgradeWebSocket(): { socket: WebSocket, response: Response }
+  upgradeWebSocket(options?: UpgradeWebSocketOptions): { socket: WebSocket, response: Response }
   runtime?: {
     env: any
     cf: any
@@ -55,13 +54,28 @@ export const onRequest = async function cloudflareWebSocketMiddleware(
     request.headers.get('upgrade') === 'websocket' &&
     request.headers.get('connection')?.toLowerCase().includes('upgrade')
 
+  // Checked before the route renders, so that other sites
+  // cannot reach it with the cookies of the app's visitors
+  if (isUpgradeRequest && !isOriginAllowed(request, getAdapterOptions().allowedOrigins)) {
+    return createOriginRejectionResponse()
+  }
+
   // Set up locals for WebSocket support
   locals.isUpgradeRequest = isUpgradeRequest
-  locals.upgradeWebSocket = () => {
+  locals.upgradeWebSocket = (options: UpgradeWebSocketOptions = {}) => {
     if (!isUpgradeRequest) {
       throw new Error('The request must be an upgrade request to upgrade the connection to a WebSocket.')
     }
 
+    if (!isOriginAllowed(request, options.allowedOrigins)) {
+      return { socket: new WebSocket(request.url), response: createOriginRejectionResponse() }
+    }
+
+    const selection = selectProtocol(request.headers.get('sec-websocket-protocol'), options.protocols)
+    if (!selection.accepted) {
+      return { socket: new WebSocket(request.url), response: createProtocolRejectionResponse() }
+    }
+
     // Create WebSocket pair for Cloudflare
     const webSocketPair = new WebSocketPair()
     const [client, server] = [webSocketPair[0], webSocketPair[1]]
@@ -73,16 +87,13 @@ export const onRequest = async function cloudflareWebSocketMiddleware(
     const socket = new WebSocket(request.url)
 
     // Attach the server-side WebSocket to our wrapper
-    attach(socket, server)
+    attach(socket, server, { protocol: selection.protocol })
 
-    // Return WebSocket upgrade response with client side
-    const response = new Response(null, {
-      status: 101,
-      statusText: 'Switching Protocols',
-      webSocket: client,
-    } as CloudflareResponseInit)
+    const headers = new Headers()
+    if (selection.protocol) headers.set('Sec-WebSocket-Protocol', selection.protocol)
 
-    return { socket, response }
+    // Return WebSocket upgrade response with client side
+    return { socket, response: createUpgradeResponse(client, headers) }
   }
 
   return next()
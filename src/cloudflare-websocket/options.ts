@@ -0,0 +1,55 @@
+/**
+ * Cloudflare WebSocket upgrade options
+ */
+
+import type { AllowedOrigins } from './origin.js'
+import type { ProtocolSelector } from './protocol.js'
+
+/**
+ * Options accepted by `locals.upgradeWebSocket()`,
+ * applied to the socket created for that request.
+ */
+export interface UpgradeWebSocketOptions {
+  /**
+   * Subprotocols the route supports, in order of preference,
+   * or a function that picks one from those the client offered.
+   * The handshake is rejected with 400 when none of them match.
+   */
+  protocols?: ProtocolSelector
+  /**
+   * Origins allowed to open a socket on this route, as globs
+   * or functions. Checked in addition to the adapter's
+   * `websocket.allowedOrigins` option, which is checked before
+   * the route renders. Other origins are rejected with 403.
+   */
+  allowedOrigins?: AllowedOrigins
+}
+
+/**
+ * Defaults for every socket, set through the
+ * `websocket` option of the cloudflare adapter.
+ */
+export interface WebSocketAdapterOptions {
+  /**
+   * Origins allowed to open a socket on any route, as globs
+   * such as `"https://*.example.com"`. Upgrade requests from
+   * other origins are rejected with 403 before rendering.
+   * Requests from the app's own origin, and requests without
+   * an `Origin` header, are always allowed.
+   *
+   * Only globs can be used here, since the adapter's options
+   * are serialized into the build. Functions can be passed
+   * to `upgradeWebSocket()` instead.
+   */
+  allowedOrigins?: string | string[]
+}
+
+/**
+ * The adapter's options, replaced with their value by
+ * the adapter's Vite config when the worker is built.
+ */
+declare const __ZASTRO_WEBSOCKET_OPTIONS__: WebSocketAdapterOptions | undefined
+
+export function getAdapterOptions(): WebSocketAdapterOptions {
+  return typeof __ZASTRO_WEBSOCKET_OPTIONS__ === 'undefined' ? {} : __ZASTRO_WEBSOCKET_OPTIONS__
+}
@@ -0,0 +1,36 @@
+/**
+ * Cloudflare WebSocket upgrade responses
+ */
+
+// Extend ResponseInit to include Cloudflare's webSocket property
+interface CloudflareResponseInit extends ResponseInit {
+  webSocket?: CloudflareWebSocket
+}
+
+/**
+ * Stands in for the 101 response outside of workerd, such as in
+ * `astro dev`, where 101 is not a valid status for a `Response`.
+ */
+class UpgradeResponse extends Response {
+  readonly status = 101
+  readonly webSocket: CloudflareWebSocket
+
+  constructor(init: CloudflareResponseInit & { webSocket: CloudflareWebSocket }) {
+    super(null, { headers: init.headers })
+    this.webSocket = init.webSocket
+  }
+}
+
+/**
+ * The 101 response that hands the client end of
+ * a `WebSocketPair` to the runtime.
+ */
+export function createUpgradeResponse(webSocket: CloudflareWebSocket, headers?: HeadersInit): Response {
+  const init = { status: 101, statusText: 'Switching Protocols', headers, webSocket }
+  try {
+    return new Response(null, init as CloudflareResponseInit)
+  } catch (error) {
+    if (!(error instanceof RangeError)) throw error
+    return new UpgradeResponse(init)
+  }
+}
@@ -4,6 +4,10 @@
 
 import type { App } from 'astro/app'
 import { WebSocket, attach } from './websocket.js'
+import { createProtocolRejectionResponse, selectProtocol } from './protocol.js'
+import { createOriginRejectionResponse, isOriginAllowed } from './origin.js'
+import { getAdapterOptions, type UpgradeWebSocketOptions, type WebSocketAdapterOptions } from './options.js'
+import { createUpgradeResponse } from './response.js'
 
 // Cloudflare Workers type declarations
 declare global {
@@ -33,14 +37,9 @@ interface CloudflareRequest extends Request {
   cf: any
 }
 
-// Extend ResponseInit to include Cloudflare's webSocket property
-interface CloudflareResponseInit extends ResponseInit {
-  webSocket?: CloudflareWebSocket
-}
-
 export type CloudflareApp = App
 
-export function createWebSocketHandler(app: CloudflareApp) {
+export function createWebSocketHandler(app: CloudflareApp, adapterOptions: WebSocketAdapterOptions = getAdapterOptions()) {
   return async function handleWebSocket(request: Request, env: any, ctx: any) {
     // Check if this is a WebSocket upgrade request
     const upgradeHeader = request.headers.get('upgrade')
@@ -51,55 +50,94 @@ export function createWebSocketHandler(app: CloudflareApp) {
       return app.render(request, { locals: { isUpgradeRequest: false } })
     }
 
-    // Create WebSocket pair for Cloudflare
-    const webSocketPair = new WebSocketPair()
-    const [client, server] = [webSocketPair[0], webSocketPair[1]]
-
-    // Accept the server-side WebSocket
-    server.accept()
-
-    // Render the Astro page with WebSocket support
-    const response = await app.render(request, {
-      locals: {
-        isUpgradeRequest: true,
-        upgradeWebSocket() {
-          // Create our WebSocket wrapper
-          const socket = new WebSocket(request.url)
-
-          // Attach the server-side WebSocket to our wrapper
-          attach(socket, server)
-
-          // Return WebSocket upgrade response
-          const upgradeResponse = new Response(null, {
-            status: 101,
-            statusText: 'Switching Protocols',
-            webSocket: client,
-          } as CloudflareResponseInit)
+    if (!isOriginAllowed(request, adapterOptions.allowedOrigins)) {
+      return createOriginRejectionResponse()
+    }
 
-          return { socket, response: upgradeResponse }
+    // The pairs created by `upgradeWebSocket()`, which
+    // may be called more than once, or not at all
+    const pairs: { client: CloudflareWebSocket, server: CloudflareWebSocket, protocol?: string }[] = []
+
+    let response: Response & { webSocket?: CloudflareWebSocket | null }
+    try {
+      // Render the Astro page with WebSocket support
+      response = await app.render(request, {
+        addCookieHeader: true,
+        locals: {
+          isUpgradeRequest: true,
+          upgradeWebSocket(options: UpgradeWebSocketOptions = {}) {
+            // Create our WebSocket wrapper
+            const socket = new WebSocket(request.url)
+
+            if (!isOriginAllowed(request, options.allowedOrigins)) {
+              return { socket, response: createOriginRejectionResponse() }
+            }
+
+            const selection = selectProtocol(request.headers.get('sec-websocket-protocol'), options.protocols)
+            if (!selection.accepted) {
+              return { socket, response: createProtocolRejectionResponse() }
+            }
+
+            // Create WebSocket pair for Cloudflare, once the upgrade is accepted
+            const webSocketPair = new WebSocketPair()
+            const pair = { client: webSocketPair[0], server: webSocketPair[1], protocol: selection.protocol }
+            pairs.push(pair)
+
+            // Accept the server-side WebSocket, and attach it to our wrapper
+            pair.server.accept()
+            attach(socket, pair.server, { protocol: pair.protocol })
+
+            return { socket, response: createUpgradeResponse(pair.client, protocolHeaders(pair.protocol)) }
+          },
+          runtime: {
+            env,
+            cf: (request as CloudflareRequest).cf,
+            ctx,
+            caches: globalThis.caches,
+            waitUntil: (promise: Promise<any>) => ctx.waitUntil(promise),
+          },
         },
-        runtime: {
-          env,
-          cf: (request as CloudflareRequest).cf,
-          ctx,
-          caches: globalThis.caches,
-          waitUntil: (promise: Promise<any>) => ctx.waitUntil(promise),
-        },
-      },
-    })
-
-    // If the response is a WebSocket upgrade response, return it with the client WebSocket
-    if (response.status === 101) {
-      return new Response(null, {
-        status: 101,
-        statusText: 'Switching Protocols',
-        webSocket: client,
-      } as CloudflareResponseInit)
+      })
+    } catch (error) {
+      closeUnusedPairs(pairs)
+      throw error
     }
 
-    return response
+    if (response.status !== 101) {
+      closeUnusedPairs(pairs)
+      return response
+    }
+
+    // The response may have been recreated on its way out of the
+    // pipeline, without its client WebSocket, in which case it
+    // belongs to the last pair created
+    const pair = response.webSocket ? pairs.find(pair => pair.client === response.webSocket) : pairs.at(-1)
+    const client = response.webSocket ?? pair?.client
+    closeUnusedPairs(pairs, client)
+    if (!client) return response
+
+    // Keep the route's headers, such as `Set-Cookie`, on the 101 response
+    const headers = new Headers(response.headers)
+    if (pair?.protocol) headers.set('Sec-WebSocket-Protocol', pair.protocol)
+    return createUpgradeResponse(client, headers)
+  }
+}
+
+/**
+ * Closes the pairs whose client WebSocket is not returned,
+ * so that the sockets the route got from them close too.
+ */
+function closeUnusedPairs(pairs: { client: CloudflareWebSocket, server: CloudflareWebSocket }[], used?: CloudflareWebSocket) {
+  for (const { client, server } of pairs) {
+    if (client !== used) server.close(1011, 'The upgrade was not completed')
   }
 }
 
+function protocolHeaders(protocol: string | undefined): Headers {
+  const headers = new Headers()
+  if (protocol) headers.set('Sec-WebSocket-Protocol', protocol)
+  return headers
+}
+
 // Re-export WebSocket types for convenience
 export { WebSocket, attach } from './websocket.js'
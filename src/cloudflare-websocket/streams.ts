@@ -0,0 +1,126 @@
+/**
+ * Cloudflare WebSocket streams, following the WebSocketStream proposal
+ */
+
+type MessageData = string | ArrayBufferLike | ArrayBufferView
+
+/**
+ * The parts of the socket that the streams are built on
+ */
+export interface StreamSource extends EventTarget {
+  readonly readyState: number
+  send(data: MessageData): void
+  close(code?: number, reason?: string): void
+}
+
+/**
+ * Error of the readable and writable streams when the
+ * connection closes uncleanly, following `WebSocketError`
+ * from the WebSocketStream proposal.
+ */
+export class WebSocketError extends DOMException {
+  readonly closeCode: number | null
+  readonly reason: string
+
+  constructor(message: string, { closeCode = null, reason = '' }: { closeCode?: number | null; reason?: string } = {}) {
+    super(message, 'WebSocketError')
+    this.closeCode = closeCode
+    this.reason = reason
+  }
+}
+
+const READABLE_HIGH_WATER_MARK = 16
+
+/**
+ * A stream of the data of incoming messages.
+ *
+ * Workers offer no way to stop reading from a WebSocket, so
+ * unlike on Node.js, a slow consumer does not slow down the
+ * peer; messages are held by the stream until they are read.
+ *
+ * Cancelling the stream closes the socket.
+ */
+export function createReadableStream(socket: StreamSource): ReadableStream<MessageData> {
+  // Messages can still arrive between cancelling
+  // the stream and the socket closing.
+  let cancelled = false
+
+  return new ReadableStream<MessageData>({
+    start(controller) {
+      socket.addEventListener('message', (event) => {
+        if (cancelled) return
+        controller.enqueue((event as MessageEvent).data)
+      })
+      socket.addEventListener('close', (event) => {
+        const { code, reason, wasClean } = event as CloseEvent
+        if (cancelled) return
+        if (wasClean) controller.close()
+        else controller.error(new WebSocketError('The WebSocket closed uncleanly.', { closeCode: code, reason }))
+      }, { once: true })
+    },
+    cancel(reason) {
+      cancelled = true
+      socket.close(...closeArguments(reason))
+    },
+  }, new CountQueuingStrategy({ highWaterMark: READABLE_HIGH_WATER_MARK }))
+}
+
+/**
+ * A stream that sends each chunk written to it as a message.
+ *
+ * Closing the stream closes the socket with 1000, and aborting
+ * it closes the socket as well. The stream errors when the
+ * connection closes uncleanly.
+ */
+export function createWritableStream(socket: StreamSource): WritableStream<MessageData> {
+  return new WritableStream<MessageData>({
+    start(controller) {
+      // After a clean close, pipes into the stream finish when
+      // their source closes, and further writes are rejected.
+      socket.addEventListener('close', (event) => {
+        const { code, reason, wasClean } = event as CloseEvent
+        if (!wasClean) controller.error(new WebSocketError('The WebSocket closed uncleanly.', { closeCode: code, reason }))
+      }, { once: true })
+    },
+    write(chunk) {
+      socket.send(chunk)
+    },
+    close() {
+      socket.close(1000)
+    },
+    abort(reason) {
+      socket.close(...closeArguments(reason))
+    },
+  })
+}
+
+/**
+ * Iterates over the data of incoming messages through
+ * `readable`. Breaking out of the loop closes the socket.
+ */
+export async function* iterateMessages(readable: ReadableStream<MessageData>): AsyncGenerator<MessageData, void, undefined> {
+  const reader = readable.getReader()
+  let done = false
+  try {
+    while (true) {
+      const result = await reader.read()
+      if (result.done) {
+        done = true
+        return
+      }
+      yield result.value
+    }
+  } finally {
+    if (!done) await reader.cancel().catch(() => {})
+    reader.releaseLock()
+  }
+}
+
+/**
+ * A `WebSocketError` passed to `cancel()` or `abort()`
+ * chooses the code and reason the socket is closed with.
+ */
+function closeArguments(reason: unknown): [code?: number, reason?: string] {
+  if (reason instanceof WebSocketError && reason.closeCode !== null) return [reason.closeCode, reason.reason]
+  return [1000]
+}
@@ -0,0 +1,322 @@
+/**
+ * Cloudflare WebSocket route testing
+ */
+
+import type { APIContext, APIRoute } from 'astro'
+import type { App } from 'astro/app'
+import type { WebSocket } from './websocket.js'
+import { CloseEvent } from './websocket.js'
+import { createWebSocketHandler } from './server.js'
+import type { UpgradeWebSocketOptions, WebSocketAdapterOptions } from './options.js'
+
+export interface ConnectToRouteOptions {
+  /**
+   * The URL of the upgrade request, including the query.
+   * @default 'http://localhost/'
+   */
+  url?: string | URL
+  /** The route's parameters, as `ctx.params` */
+  params?: APIContext['params']
+  /**
+   * The route's pattern, as `ctx.routePattern`.
+   * @default the pathname of `url`
+   */
+  routePattern?: string
+  /** Headers of the upgrade request, such as `Cookie` or `Origin` */
+  headers?: Record<string, string>
+  /** Subprotocols the client offers */
+  protocols?: string | string[]
+  /** Added to `ctx.locals`, as a middleware would */
+  locals?: Record<string, unknown>
+  /** The adapter's `websocket` options */
+  adapterOptions?: WebSocketAdapterOptions
+  /** The worker's bindings, as `ctx.locals.runtime.env` */
+  env?: Record<string, unknown>
+  /**
+   * Milliseconds `nextMessage()` and `closed` wait before failing.
+   * @default 2000
+   */
+  timeout?: number
+}
+
+export interface TestCloseEvent {
+  code: number
+  reason: string
+}
+
+/**
+ * Thrown by `connectToRoute()` when the route, or the
+ * adapter, answers the upgrade request without upgrading.
+ */
+export class UpgradeRejectedError extends Error {
+  readonly response: Response
+
+  constructor(response: Response) {
+    super(`The upgrade request was answered with ${response.status} instead of 101.`)
+    this.response = response
+  }
+}
+
+/**
+ * Runs a route that calls `locals.upgradeWebSocket()` through
+ * the adapter's handler, and connects a client to the socket it
+ * returns, without a network.
+ *
+ * In workerd, such as with `@cloudflare/vitest-pool-workers`, the
+ * runtime's own `WebSocketPair` is used. In Node.js, `WebSocketPair`
+ * and the 101 responses it needs are emulated while the route runs.
+ *
+ * The context passed to the route has `request`, `url`,
+ * `params`, `locals`, `routePattern` and `clientAddress`.
+ */
+export async function connectToRoute(route: APIRoute, options: ConnectToRouteOptions = {}): Promise<TestClient> {
+  const { params = {}, protocols = [], locals: extraLocals, adapterOptions = {}, env = {}, timeout = 2000 } = options
+  const url = new URL(options.url ?? 'http://localhost/')
+  const routePattern = options.routePattern ?? url.pathname
+  let socket: WebSocket | undefined
+
+  // Stands in for the app, rendering the route with the locals
+  // of the handler, like Astro's API route pipeline would.
+  const app = {
+    async render(request: Request, { locals }: { locals: Record<string, any> }) {
+      const context = {
+        request,
+        url: new URL(request.url),
+        params,
+        routePattern,
+        clientAddress: '127.0.0.1',
+        locals: {
+          ...extraLocals,
+          ...locals,
+          upgradeWebSocket(options?: UpgradeWebSocketOptions) {
+            const upgrade = locals.upgradeWebSocket(options)
+            socket = upgrade.socket
+            return upgrade
+          },
+        },
+      }
+      return route(context as unknown as APIContext)
+    },
+  }
+
+  const headers = new Headers(options.headers)
+  headers.set('Upgrade', 'websocket')
+  headers.set('Connection', 'Upgrade')
+  const offered = [protocols].flat()
+  if (offered.length > 0) headers.set('Sec-WebSocket-Protocol', offered.join(', '))
+  const request = new Request(url, { headers })
+
+  const handler = createWebSocketHandler(app as unknown as App, adapterOptions)
+  const ctx = { waitUntil() {}, passThroughOnException() {} }
+  const response = await withWorkersEmulation(() => handler(request, env, ctx)) as Response & { webSocket?: CloudflareWebSocket | null }
+
+  if (response.status !== 101 || !response.webSocket) {
+    throw new UpgradeRejectedError(response)
+  }
+  return new TestClient(response.webSocket, response.headers.get('Sec-WebSocket-Protocol') ?? '', () => socket!, timeout)
+}
+
+/**
+ * The client side of a connection made by `connectToRoute()`.
+ */
+export class TestClient {
+  private _ws: CloudflareWebSocket
+  private _protocol: string
+  private _getSocket: () => WebSocket
+  private _timeout: number
+  private _messages: (string | ArrayBuffer)[] = []
+  private _waiting: { resolve(data: string | ArrayBuffer): void; reject(error: Error): void }[] = []
+  private _closed: Promise<TestCloseEvent>
+  private _closeEvent: TestCloseEvent | undefined
+
+  constructor(client: CloudflareWebSocket, protocol: string, getSocket: () => WebSocket, timeout: number) {
+    this._ws = client
+    this._protocol = protocol
+    this._getSocket = getSocket
+    this._timeout = timeout
+    client.addEventListener('message', (event: { data: any }) => {
+      const waiting = this._waiting.shift()
+      if (waiting) waiting.resolve(event.data)
+      else this._messages.push(event.data)
+    })
+    this._closed = new Promise(resolve => client.addEventListener('close', (event: { code: number; reason: string }) => {
+      this._closeEvent = { code: event.code, reason: event.reason }
+      for (const { reject } of this._waiting.splice(0)) reject(this._closedError())
+      resolve(this._closeEvent)
+    }))
+    // Events are held by the runtime until the socket is accepted
+    client.accept()
+  }
+
+  /** The socket the route got from `upgradeWebSocket()` */
+  get socket(): WebSocket {
+    return this._getSocket()
+  }
+
+  /** The subprotocol the route selected */
+  get protocol(): string {
+    return this._protocol
+  }
+
+  get readyState(): number {
+    return this._ws.readyState
+  }
+
+  /**
+   * The next message from the route, which has already
+   * arrived or arrives within the timeout. Text messages
+   * are strings, and binary messages are ArrayBuffers.
+   */
+  nextMessage(timeout = this._timeout): Promise<string | ArrayBuffer> {
+    if (this._messages.length > 0) return Promise.resolve(this._messages.shift()!)
+    if (this._closeEvent) return Promise.reject(this._closedError())
+    return new Promise((resolve, reject) => {
+      const waiting = {
+        resolve(data: string | ArrayBuffer) {
+          clearTimeout(timer)
+          resolve(data)
+        },
+        reject(error: Error) {
+          clearTimeout(timer)
+          reject(error)
+        },
+      }
+      const timer = setTimeout(() => {
+        this._waiting.splice(this._waiting.indexOf(waiting), 1)
+        reject(new Error(`No message was received within ${timeout}ms.`))
+      }, timeout)
+      this._waiting.push(waiting)
+    })
+  }
+
+  /** The next message from the route, parsed as JSON */
+  async nextJSON<T = unknown>(timeout?: number): Promise<T> {
+    const message = await this.nextMessage(timeout)
+    if (typeof message !== 'string') throw new TypeError('Expected a text message, but a binary message was received.')
+    return JSON.parse(message)
+  }
+
+  send(data: string | ArrayBufferLike | ArrayBufferView): void {
+    this._ws.send(data)
+  }
+
+  /**
+   * Resolves with the code and reason of the close,
+   * from either side, or rejects after the timeout.
+   */
+  get closed(): Promise<TestCloseEvent> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    return Promise.race([
+      this._closed,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`The socket did not close within ${this._timeout}ms.`)), this._timeout)
+      }),
+    ]).finally(() => clearTimeout(timer))
+  }
+
+  /**
+   * Closes the connection, and resolves once
+   * the route's socket has closed too.
+   */
+  close(code?: number, reason?: string): Promise<TestCloseEvent> {
+    this._ws.close(code, reason)
+    return this.closed
+  }
+
+  private _closedError() {
+    return new Error(`The socket closed with ${this._closeEvent!.code} before a message was received.`)
+  }
+}
+
+let emulations = 0
+let originalResponse: typeof Response | undefined
+
+/**
+ * Provides `WebSocketPair`, and a `Response` that accepts status 101
+ * and a `webSocket`, while `fn` runs, unless the runtime has them.
+ */
+async function withWorkersEmulation<T>(fn: () => Promise<T>): Promise<T> {
+  if (typeof WebSocketPair !== 'undefined' && emulations === 0) return fn()
+  if (emulations++ === 0) {
+    originalResponse = globalThis.Response
+    globalThis.WebSocketPair = MemoryWebSocketPair as unknown as typeof WebSocketPair
+    globalThis.Response = WorkersResponse
+  }
+  try {
+    return await fn()
+  } finally {
+    if (--emulations === 0) {
+      globalThis.Response = originalResponse!
+      delete (globalThis as { WebSocketPair?: unknown }).WebSocketPair
+    }
+  }
+}
+
+class WorkersResponse extends Response {
+  readonly webSocket: CloudflareWebSocket | null
+  private _status: number
+
+  constructor(body?: BodyInit | null, init?: ResponseInit & { webSocket?: CloudflareWebSocket }) {
+    // Outside of workerd, 101 is not a valid status for a Response
+    super(body, init?.status === 101 ? { ...init, status: 200 } : init)
+    this._status = init?.status ?? 200
+    this.webSocket = init?.webSocket ?? null
+  }
+
+  get status() {
+    return this._status
+  }
+}
+
+/**
+ * One end of an in-memory connection. Messages and the close
+ * are delivered to the other end in a later microtask, and its
+ * events are held until `accept()` is called, as in workerd.
+ */
+class MemoryWebSocket extends EventTarget {
+  readyState = 1
+  readonly url = ''
+  peer!: MemoryWebSocket
+  private _accepted = false
+  private _held: Event[] = []
+
+  accept() {
+    this._accepted = true
+    for (const event of this._held.splice(0)) this.dispatchEvent(event)
+  }
+
+  send(data: string | ArrayBufferLike | ArrayBufferView) {
+    if (this.readyState !== 1) throw new TypeError('The WebSocket is not open.')
+    const copy = typeof data === 'string'
+      ? data
+      : ArrayBuffer.isView(data)
+        ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice().buffer
+        : data.slice(0)
+    this.peer._deliver(new MessageEvent('message', { data: copy }))
+  }
+
+  close(code = 1005, reason = '') {
+    if (this.readyState !== 1) return
+    this.readyState = this.peer.readyState = 3
+    for (const end of [this, this.peer]) end._deliver(new CloseEvent('close', { code, reason, wasClean: true }))
+  }
+
+  _deliver(event: Event) {
+    queueMicrotask(() => {
+      if (this._accepted) this.dispatchEvent(event)
+      else this._held.push(event)
+    })
+  }
+}
+
+class MemoryWebSocketPair {
+  0: MemoryWebSocket
+  1: MemoryWebSocket
+
+  constructor() {
+    this[0] = new MemoryWebSocket()
+    this[1] = new MemoryWebSocket()
+    this[0].peer = this[1]
+    this[1].peer = this[0]
+  }
+}
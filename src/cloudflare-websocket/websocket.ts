@@ -2,6 +2,9 @@
  * Cloudflare WebSocket implementation
  */
 
+import { createReadableStream, createWritableStream, iterateMessages } from './streams.js'
+import { rooms } from './rooms.js'
+
 export interface WebSocketUpgrade {
   socket: WebSocket
   response: Response
@@ -21,6 +24,9 @@ export class WebSocket extends EventTarget {
   private _protocol: string = ''
   private _extensions: string = ''
   private _ws: CloudflareWebSocket | undefined
+  // Messages and a close requested before the socket is attached
+  private _pendingMessages: (string | ArrayBufferLike | Blob | ArrayBufferView)[] = []
+  private _pendingClose: [code?: number, reason?: string] | undefined
 
   // Instance constants
   readonly CONNECTING: 0 = 0
@@ -67,40 +73,114 @@ export class WebSocket extends EventTarget {
     this._binaryType = value
   }
 
+  /**
+   * Before the socket is open, the close is held
+   * until it opens, after the held messages.
+   */
   close(code?: number, reason?: string) {
+    validateCloseArguments(code, reason)
     if (this._readyState === WebSocket.CLOSED || this._readyState === WebSocket.CLOSING) {
       return
     }
 
+    if (this._readyState === WebSocket.CONNECTING) {
+      this._pendingClose ??= [code, reason]
+      return
+    }
+
     this._readyState = WebSocket.CLOSING
     if (this._ws) {
       this._ws.close(code, reason)
     }
   }
 
+  /**
+   * Messages sent before the socket is open are held,
+   * and sent in order once it opens. Messages sent after
+   * `close()` was called are discarded, as in browsers.
+   */
   send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+    if (this._readyState === WebSocket.CONNECTING) {
+      if (!this._pendingClose) this._pendingMessages.push(data)
+      return
+    }
     if (this._readyState !== WebSocket.OPEN) {
-      throw new Error('WebSocket is not open')
+      return
     }
     if (this._ws) {
       this._ws.send(data as any)
     }
   }
+
+  /**
+   * Adds the socket to a room, so that it receives the messages
+   * published to it through `rooms.publish()`. The socket leaves
+   * all of its rooms when it closes.
+   */
+  join(room: string) {
+    rooms.join(this, room)
+  }
+
+  leave(room: string) {
+    rooms.leave(this, room)
+  }
+
+  /**
+   * The rooms the socket is a member of
+   */
+  get rooms(): Set<string> {
+    return rooms.roomsOf(this)
+  }
+
+  // Streams, created on first access
+  private _readable: ReadableStream | undefined
+  private _writable: WritableStream | undefined
+
+  /**
+   * The data of incoming messages. Only messages received
+   * after the first access are enqueued.
+   */
+  get readable(): ReadableStream<string | ArrayBuffer> {
+    return this._readable ??= createReadableStream(this) as ReadableStream<any>
+  }
+
+  /**
+   * Sends each chunk written to it
+   */
+  get writable(): WritableStream<string | ArrayBufferLike | ArrayBufferView> {
+    return this._writable ??= createWritableStream(this)
+  }
+
+  [Symbol.asyncIterator]() {
+    return iterateMessages(this.readable)
+  }
 }
 
 // WeakMap to store private Cloudflare WebSocket instances
 const wsMap = new WeakMap<WebSocket, CloudflareWebSocket>()
 
-export function attach(standard: WebSocket, cfWebSocket: CloudflareWebSocket): void {
+export interface AttachOptions {
+  /** The subprotocol negotiated during the upgrade */
+  protocol?: string
+}
+
+export function attach(standard: WebSocket, cfWebSocket: CloudflareWebSocket, options: AttachOptions = {}): void {
   if (wsMap.has(standard)) {
     throw new Error('WebSocket already attached')
   }
 
   wsMap.set(standard, cfWebSocket)
 
-  // Set private properties
+  const { _pendingMessages: pendingMessages, _pendingClose: pendingClose } = standard as unknown as {
+    _pendingMessages: (string | ArrayBufferLike | Blob | ArrayBufferView)[]
+    _pendingClose: [code?: number, reason?: string] | undefined
+  }
+
+  // Set private properties. A close requested while connecting
+  // makes the socket report CLOSING from the "open" event on.
   Object.defineProperty(standard, '_ws', { value: cfWebSocket, writable: true })
-  Object.defineProperty(standard, '_readyState', { value: WebSocket.OPEN, writable: true })
+  Object.defineProperty(standard, '_readyState', { value: pendingClose ? WebSocket.CLOSING : WebSocket.OPEN, writable: true })
+  Object.defineProperty(standard, '_protocol', { value: options.protocol ?? '', writable: true })
 
   // Set up event forwarding
   cfWebSocket.addEventListener('message', (event: { data: any }) => {
@@ -126,10 +206,44 @@ export function attach(standard: WebSocket, cfWebSocket: CloudflareWebSocket): v
     standard.dispatchEvent(errorEvent)
   })
 
+  // Flush the messages sent while connecting, ahead of
+  // those sent by "open" listeners
+  for (const data of pendingMessages.splice(0)) {
+    cfWebSocket.send(data as any)
+  }
+
   // Dispatch open event
   const openEvent = new Event('open')
   standard.onopen?.(openEvent)
   standard.dispatchEvent(openEvent)
+
+  if (pendingClose) {
+    cfWebSocket.close(...pendingClose)
+  }
+}
+
+/**
+ * Validates the arguments of `close()` up front, with the errors
+ * browsers throw, so that a close requested before the socket
+ * is open fails immediately instead of once it opens.
+ *
+ * Unlike in browsers, the codes reserved for servers, like
+ * 1001 and 1011, are allowed.
+ */
+function validateCloseArguments(code: number | undefined, reason: string | undefined) {
+  if (code !== undefined && !isValidCloseCode(code)) {
+    throw new DOMException(`The close code must be 1000-1003, 1007-1014 or 3000-4999, but ${code} was given.`, 'InvalidAccessError')
+  }
+  if (reason !== undefined && new TextEncoder().encode(reason).byteLength > 123) {
+    throw new DOMException('The close reason must not be longer than 123 bytes.', 'SyntaxError')
+  }
+}
+
+function isValidCloseCode(code: number) {
+  return Number.isInteger(code) && (
+    (code >= 1000 && code <= 1014 && code !== 1004 && code !== 1005 && code !== 1006)
+    || (code >= 3000 && code <= 4999)
+  )
 }
 
 export class ErrorEvent extends Event {
@@ -0,0 +1,74 @@
+import type * as http from "node:http"
+import type * as https from "node:https"
+import type { UpgradeHandler } from "./serve-websocket.js"
+
+type Server = http.Server | https.Server
+
+/**
+ * Either a path, where `*` matches any characters except `/`,
+ * such as `"/ws/*"`, a regular expression, or a function that
+ * is given the path of the request, without its query.
+ */
+export type PathMatcher = string | RegExp | ((pathname: string) => boolean)
+
+export interface AttachWebSocketUpgradeOptions {
+    /**
+     * Paths whose upgrades are passed to the Astro routes.
+     * @default every path
+     */
+    path?: PathMatcher | readonly PathMatcher[]
+    /**
+     * Handles the upgrades that `path` does not match, for example
+     * with `handleUpgrade()` of a `ws` server created with
+     * `noServer: true`. Without it, they are left to the other
+     * "upgrade" listeners of the server.
+     */
+    fallback?: UpgradeHandler
+}
+
+const globs = new Map<string, RegExp>()
+
+/**
+ * Passes the upgrade requests received by a server, such as the one
+ * an Express or Fastify app listens with in the adapter's middleware
+ * mode, to the Astro routes, where `locals.upgradeWebSocket()`
+ * works as in the standalone server.
+ *
+ * `handler` is the `websocketHandler` exported by the server
+ * entrypoint, next to the `handler` of the middleware mode.
+ *
+ * Returns a function that removes the listener.
+ */
+export function attachWebSocketUpgrade(
+    server: Server,
+    handler: UpgradeHandler,
+    { path, fallback }: AttachWebSocketUpgradeOptions = {},
+): () => void {
+    const listener: UpgradeHandler = (req, socket, head) => {
+        if (isPathMatched(req.url ?? "/", path)) handler(req, socket, head)
+        else fallback?.(req, socket, head)
+    }
+    server.on("upgrade", listener)
+    return () => server.off("upgrade", listener)
+}
+
+function isPathMatched(url: string, path: AttachWebSocketUpgradeOptions["path"]): boolean {
+    if (path === undefined) return true
+    const { pathname } = new URL(url, "http://localhost")
+    const matchers = Array.isArray(path) ? path : [path] as PathMatcher[]
+    return matchers.some(matcher => {
+        if (typeof matcher === "function") return matcher(pathname)
+        if (matcher instanceof RegExp) return matcher.test(pathname)
+        return globToRegExp(matcher).test(pathname)
+    })
+}
+
+function globToRegExp(glob: string): RegExp {
+    let regExp = globs.get(glob)
+    if (!regExp) {
+        const source = glob.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^/]*")
+        regExp = new RegExp(`^${source}$`)
+        globs.set(glob, regExp)
+    }
+    return regExp
+}
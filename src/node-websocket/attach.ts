@@ -1,5 +1,6 @@
 import type * as ws from "ws"
 import type { WebSocket } from "./websocket.js"
+import type { UpgradeWebSocketOptions } from "./options.js"
 
 /**
  * To keep the internals hidden, the function that attaches the
@@ -12,6 +13,6 @@ export const attacher: { attach: null | typeof attach } = { attach: null }
  * Attach a ws.WebSocket connected to I/O to the implementation
  * of the standard WebSocket class exposed to the public API.
  */
-export function attach(standard: WebSocket, ws: ws.WebSocket): void {
-    return attacher.attach?.(standard, ws)
+export function attach(standard: WebSocket, ws: ws.WebSocket, options?: UpgradeWebSocketOptions): void {
+    return attacher.attach?.(standard, ws, options)
 }
@@ -0,0 +1,103 @@
+/**
+ * A message exchanged between processes through a broker.
+ *
+ * It only contains data that survives serialization,
+ * since brokers usually send it over IPC or the network.
+ */
+export interface BrokerMessage {
+  /**
+   * Identifies the process that published the message.
+   * Brokers may deliver messages back to their publisher,
+   * which then ignores them.
+   */
+  origin: string
+  /** Text messages are strings, binary messages are bytes */
+  data: string | Uint8Array
+}
+
+export type BrokerListener = (message: BrokerMessage) => void
+
+/**
+ * Carries messages published in one process to the other
+ * processes serving the same application, such as the
+ * workers of a `node:cluster` deployment.
+ *
+ * Topics are opaque strings. A process subscribes to a topic
+ * while it has a use for its messages, for example while a
+ * room has members in that process, so that brokers with
+ * per-topic subscriptions, like Redis, only receive relevant
+ * traffic.
+ *
+ * Implementations must:
+ * - deliver each message published to a topic to every
+ *   listener subscribed to that topic in other processes,
+ * - deliver `data` with the type it was published with,
+ *   either a string or a `Uint8Array`,
+ * - keep the order of the messages published to a topic
+ *   by one process.
+ *
+ * Delivery is best-effort. Messages published while a
+ * process is disconnected from the broker may be lost.
+ */
+export interface Broker {
+  publish(topic: string, message: BrokerMessage): void | Promise<void>
+  /** Returns a function that removes the listener */
+  subscribe(topic: string, listener: BrokerListener): () => void
+  /** Releases connections or listeners held by the broker */
+  close?(): void | Promise<void>
+}
+
+/**
+ * Identifies this process in the messages it publishes.
+ */
+export const processId: string = crypto.randomUUID()
+
+/**
+ * A broker that delivers messages within the current process.
+ *
+ * Useful in tests, where several publishers share one broker,
+ * and as a reference implementation of the contract.
+ */
+export function createMemoryBroker(): Broker {
+  const topics = new Map<string, Set<BrokerListener>>()
+
+  return {
+    publish(topic, message) {
+      const listeners = topics.get(topic)
+      if (!listeners) return
+      // Deliver asynchronously, like brokers that
+      // go through IPC or the network would.
+      for (const listener of [...listeners]) {
+        queueMicrotask(() => listener(message))
+      }
+    },
+    subscribe(topic, listener) {
+      let listeners = topics.get(topic)
+      if (!listeners) {
+        listeners = new Set()
+        topics.set(topic, listeners)
+      }
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) topics.delete(topic)
+      }
+    },
+    close() {
+      topics.clear()
+    },
+  }
+}
+
+/**
+ * Converts the data of a message to a form that brokers can
+ * carry. Buffers are copied right away, since the caller may
+ * reuse them before the broker sends the message. Only blobs
+ * have to be read asynchronously.
+ */
+export function toBrokerData(data: string | ArrayBufferLike | Blob | ArrayBufferView): string | Uint8Array | Promise<Uint8Array> {
+  if (typeof data === "string") return data
+  if (data instanceof Blob) return data.arrayBuffer().then(buffer => new Uint8Array(buffer))
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice()
+  return new Uint8Array(data).slice()
+}
@@ -0,0 +1,110 @@
+import cluster from "node:cluster"
+import type { Worker } from "node:cluster"
+import type { Broker, BrokerListener, BrokerMessage } from "./broker.js"
+
+/**
+ * Marks the IPC messages that belong to the broker, so that
+ * they can share the channel with the application's own.
+ */
+const MESSAGE_TYPE = "zastro-websockets:broker"
+
+interface IpcMessage {
+  type: typeof MESSAGE_TYPE
+  topic: string
+  origin: string
+  /** Binary data is base64-encoded, since IPC serializes to JSON by default */
+  data: string | { base64: string }
+}
+
+/**
+ * A broker for the workers of a `node:cluster` deployment.
+ *
+ * Workers cannot message each other directly, so the
+ * primary process must call `relayClusterBrokerMessages()`
+ * to forward messages between them.
+ *
+ * Only works in processes started with `cluster.fork()`.
+ * PM2's cluster mode does not relay IPC messages between
+ * workers; use a network broker there instead.
+ */
+export function createClusterBroker(): Broker {
+  if (!cluster.isWorker || !process.send) {
+    throw new Error("createClusterBroker() must be called in a worker started with cluster.fork(). Call relayClusterBrokerMessages() in the primary process instead.")
+  }
+
+  const topics = new Map<string, Set<BrokerListener>>()
+
+  function onMessage(message: unknown) {
+    if (!isIpcMessage(message)) return
+    const listeners = topics.get(message.topic)
+    if (!listeners) return
+    const brokerMessage = fromIpcMessage(message)
+    for (const listener of [...listeners]) listener(brokerMessage)
+  }
+  process.on("message", onMessage)
+
+  return {
+    publish(topic, message) {
+      return new Promise<void>((resolve, reject) => {
+        process.send!(toIpcMessage(topic, message), undefined, {}, error => error ? reject(error) : resolve())
+      })
+    },
+    subscribe(topic, listener) {
+      let listeners = topics.get(topic)
+      if (!listeners) {
+        listeners = new Set()
+        topics.set(topic, listeners)
+      }
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) topics.delete(topic)
+      }
+    },
+    close() {
+      process.off("message", onMessage)
+      topics.clear()
+    },
+  }
+}
+
+/**
+ * Forwards the broker messages of each worker to the other
+ * workers. Call it once in the primary process, before or
+ * after forking. Returns a function that stops relaying.
+ */
+export function relayClusterBrokerMessages(): () => void {
+  if (!cluster.isPrimary) {
+    throw new Error("relayClusterBrokerMessages() must be called in the primary process.")
+  }
+
+  function onMessage(sender: Worker, message: unknown) {
+    if (!isIpcMessage(message)) return
+    for (const worker of Object.values(cluster.workers ?? {})) {
+      if (!worker || worker === sender || !worker.isConnected()) continue
+      worker.send(message)
+    }
+  }
+  cluster.on("message", onMessage)
+  return () => cluster.off("message", onMessage)
+}
+
+function toIpcMessage(topic: string, { origin, data }: BrokerMessage): IpcMessage {
+  return {
+    type: MESSAGE_TYPE,
+    topic,
+    origin,
+    data: typeof data === "string" ? data : { base64: Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("base64") },
+  }
+}
+
+function fromIpcMessage({ origin, data }: IpcMessage): BrokerMessage {
+  return {
+    origin,
+    data: typeof data === "string" ? data : new Uint8Array(Buffer.from(data.base64, "base64")),
+  }
+}
+
+function isIpcMessage(message: unknown): message is IpcMessage {
+  return typeof message === "object" && message !== null && (message as IpcMessage).type === MESSAGE_TYPE
+}
@@ -0,0 +1,210 @@
+import cluster from "node:cluster"
+import { processId, type Broker, type BrokerMessage } from "./broker.js"
+import type { ConnectionState, ConnectionStats } from "./stats.js"
+
+/**
+ * The topic workers report their stats on. Brokers may be
+ * shared with rooms, whose topics are prefixed with "room:".
+ */
+const STATS_TOPIC = "stats"
+
+export interface ClusterStatsOptions {
+  /**
+   * Milliseconds between the reports each worker publishes.
+   * @default 5000
+   */
+  interval?: number
+  /**
+   * Milliseconds after its last report at which a worker
+   * is considered stale, and left out of the totals.
+   * @default 3 * interval
+   */
+  staleAfter?: number
+  /**
+   * Milliseconds after its last report at which a stale
+   * worker is no longer listed at all.
+   * @default 10 * interval
+   */
+  forgetAfter?: number
+}
+
+/**
+ * What a worker publishes about itself. The per-connection
+ * details are left out to keep the reports small.
+ */
+export interface WorkerStats {
+  /** Identifies the process, unique across restarts */
+  workerId: string
+  pid: number
+  /** `cluster.worker.id`, when the process was started with `cluster.fork()` */
+  clusterWorkerId?: number
+  /**
+   * When the worker's last report was received, in milliseconds
+   * since the epoch. The receiving clock is used, so that clock
+   * skew between machines does not make workers look stale.
+   */
+  reportedAt: number
+  /** Whether the worker has not reported for longer than `staleAfter` */
+  stale: boolean
+  /** Whether this is the process that returned the stats */
+  self: boolean
+  totalConnections: number
+  totalConnectionsEver: number
+  totalConnectionsClosed: number
+  averageAge: number
+  averageIdleTime: number
+  connectionsByState: Record<ConnectionState, number>
+  rooms: Record<string, number>
+}
+
+export interface ClusterConnectionStats {
+  scope: "cluster"
+  /** Totals of the workers that are not stale */
+  totalConnections: number
+  totalConnectionsEver: number
+  totalConnectionsClosed: number
+  /** Averages over the connections of the workers that are not stale */
+  averageAge: number
+  averageIdleTime: number
+  connectionsByState: Record<ConnectionState, number>
+  /** Number of members of each room, across workers */
+  rooms: Record<string, number>
+  workers: WorkerStats[]
+  staleWorkers: number
+}
+
+type Report = Omit<WorkerStats, "stale" | "self">
+
+type StatsMessage =
+  | { type: "report", report: Report }
+  | { type: "leave" }
+
+/**
+ * Publishes the stats of this process through a broker at a
+ * fixed interval, and keeps the latest report of every other
+ * process, so that cluster-wide stats can be computed without
+ * waiting for the other workers to answer.
+ */
+export class ClusterStatsAggregator {
+  private peers = new Map<string, Report>()
+  private timer: ReturnType<typeof setInterval>
+  private unsubscribe: () => void
+  private staleAfter: number
+  private forgetAfter: number
+
+  constructor(
+    private broker: Broker,
+    private getLocalStats: () => ConnectionStats,
+    { interval = 5_000, staleAfter = 3 * interval, forgetAfter = 10 * interval }: ClusterStatsOptions = {},
+  ) {
+    this.staleAfter = staleAfter
+    this.forgetAfter = forgetAfter
+    this.unsubscribe = broker.subscribe(STATS_TOPIC, message => this.receive(message))
+    this.timer = setInterval(() => this.report(), interval)
+    this.timer.unref()
+    this.report()
+  }
+
+  getClusterStats(): ClusterConnectionStats {
+    const now = Date.now()
+    const workers: WorkerStats[] = [createLocalWorkerStats(this.getLocalStats())]
+    for (const [workerId, report] of this.peers) {
+      const age = now - report.reportedAt
+      if (age > this.forgetAfter) {
+        this.peers.delete(workerId)
+        continue
+      }
+      workers.push({ ...report, stale: age > this.staleAfter, self: false })
+    }
+    return summarizeCluster(workers)
+  }
+
+  /**
+   * Stops reporting, and tells the other workers to
+   * drop this one instead of waiting for it to go stale.
+   */
+  stop(): void {
+    clearInterval(this.timer)
+    this.unsubscribe()
+    this.publish({ type: "leave" })
+  }
+
+  private report(): void {
+    const { stale: _, self: __, ...report } = createLocalWorkerStats(this.getLocalStats())
+    this.publish({ type: "report", report })
+  }
+
+  private publish(message: StatsMessage): void {
+    Promise.resolve()
+      .then(() => this.broker.publish(STATS_TOPIC, { origin: processId, data: JSON.stringify(message) }))
+      .catch(error => console.error("[WebSocket Stats] Failed to publish cluster stats through the broker:", error))
+  }
+
+  private receive({ origin, data }: BrokerMessage): void {
+    if (origin === processId || typeof data !== "string") return
+    let message: StatsMessage
+    try {
+      message = JSON.parse(data)
+    } catch {
+      return
+    }
+    if (message.type === "leave") this.peers.delete(origin)
+    else if (message.type === "report") this.peers.set(origin, { ...message.report, reportedAt: Date.now() })
+  }
+}
+
+export function createLocalWorkerStats(local: ConnectionStats): WorkerStats {
+  const { connections: _, ...totals } = local
+  return {
+    workerId: processId,
+    pid: process.pid,
+    clusterWorkerId: cluster.worker?.id,
+    reportedAt: Date.now(),
+    stale: false,
+    self: true,
+    ...totals,
+  }
+}
+
+/**
+ * Adds up the stats of the workers that are not stale.
+ */
+export function summarizeCluster(workers: WorkerStats[]): ClusterConnectionStats {
+  const stats: ClusterConnectionStats = {
+    scope: "cluster",
+    totalConnections: 0,
+    totalConnectionsEver: 0,
+    totalConnectionsClosed: 0,
+    averageAge: 0,
+    averageIdleTime: 0,
+    connectionsByState: { CONNECTING: 0, OPEN: 0, CLOSING: 0, CLOSED: 0 },
+    rooms: {},
+    workers,
+    staleWorkers: 0,
+  }
+
+  let totalAge = 0
+  let totalIdleTime = 0
+  for (const worker of workers) {
+    if (worker.stale) {
+      stats.staleWorkers++
+      continue
+    }
+    stats.totalConnections += worker.totalConnections
+    stats.totalConnectionsEver += worker.totalConnectionsEver
+    stats.totalConnectionsClosed += worker.totalConnectionsClosed
+    totalAge += worker.averageAge * worker.totalConnections
+    totalIdleTime += worker.averageIdleTime * worker.totalConnections
+    for (const [state, count] of Object.entries(worker.connectionsByState)) {
+      stats.connectionsByState[state as ConnectionState] += count
+    }
+    for (const [room, size] of Object.entries(worker.rooms)) {
+      stats.rooms[room] = (stats.rooms[room] ?? 0) + size
+    }
+  }
+  if (stats.totalConnections > 0) {
+    stats.averageAge = totalAge / stats.totalConnections
+    stats.averageIdleTime = totalIdleTime / stats.totalConnections
+  }
+  return stats
+}
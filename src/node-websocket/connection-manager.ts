@@ -1,18 +1,548 @@
+import { EventEmitter } from "node:events"
+import type { IncomingMessage } from "node:http"
+import type { Duplex } from "node:stream"
 import type * as ws from "ws"
 import type { WebSocket } from "./websocket.js"
+import { getRemoteAddress, recordUpgradeRejected } from "./stats.js"
 
-// Basic connection manager
-export class ConnectionManager {
-  private connections = new Map<string, any>()
+type ConnectionState = "CONNECTING" | "OPEN" | "CLOSING" | "CLOSED"
 
-  registerConnection(socket: WebSocket, wsSocket: ws.WebSocket): string {
-    const id = `conn_${Date.now()}`
-    this.connections.set(id, { socket, wsSocket })
+const STATE_NAMES: readonly ConnectionState[] = ["CONNECTING", "OPEN", "CLOSING", "CLOSED"]
+
+/**
+ * How long a health check waits for the pong
+ * before the connection is considered unhealthy.
+ */
+const HEALTH_CHECK_TIMEOUT = 5_000
+
+export interface ConnectionManagerConfig {
+  /** Global connection limit. Upgrades beyond it are rejected with 503. */
+  maxConnections: number
+  /** Connection limit per remote address. Upgrades beyond it are rejected with 503. */
+  maxConnectionsPerIP: number
+  /** Connections idle for longer than this are closed by the cleanup service. `0` disables it. */
+  idleTimeout: number
+  /** Upgrades that have not completed within this time are answered with 408. `0` disables it. */
+  upgradeTimeout: number
+  /** Length of the sliding window used for rate limiting upgrades. */
+  rateLimitWindow: number
+  /** Upgrades allowed per remote address within `rateLimitWindow`. Upgrades beyond it are rejected with 429. */
+  rateLimitMaxConnections: number
+  healthCheckInterval: number
+  cleanupInterval: number
+  enablePooling: boolean
+  enableRateLimit: boolean
+  enableHealthMonitoring: boolean
+  /** Return `true` to have the cleanup service close the connection. */
+  customCleanupPolicy?: (connection: ManagedConnection) => boolean
+}
+
+const DEFAULT_CONFIG: ConnectionManagerConfig = {
+  maxConnections: Infinity,
+  maxConnectionsPerIP: Infinity,
+  idleTimeout: 0,
+  upgradeTimeout: 0,
+  rateLimitWindow: 60_000,
+  rateLimitMaxConnections: Infinity,
+  healthCheckInterval: 30_000,
+  cleanupInterval: 60_000,
+  enablePooling: true,
+  enableRateLimit: true,
+  enableHealthMonitoring: false,
+}
+
+export interface ManagedConnection {
+  readonly id: string
+  readonly socket: WebSocket
+  readonly wsSocket: ws.WebSocket
+  readonly remoteAddress: string
+  readonly userAgent?: string
+  readonly connectedAt: number
+  lastActivity: number
+  readonly age: number
+  readonly idleTime: number
+  readonly state: ConnectionState
+  readonly tags: Set<string>
+  readonly data: Map<string, unknown>
+  healthStatus: "healthy" | "unhealthy" | "unknown"
+  poolGroup?: string
+  priority: number
+}
+
+export type AdmissionResult =
+  | { allowed: true }
+  | { allowed: false, reason: "pool:full" | "ip:full" | "ratelimit:exceeded", status: 429 | 503, retryAfter?: number }
+
+/**
+ * The result of `admitConnection()`. An admitted upgrade holds
+ * a slot until `release()` is called, which must happen when
+ * the connection is registered or the upgrade fails.
+ */
+export type Admission =
+  | { allowed: true, release(): void }
+  | Extract<AdmissionResult, { allowed: false }>
+
+export interface HealthCheckResult {
+  healthy: boolean
+  latency?: number
+  error?: string
+}
+
+export interface CloseCriteria {
+  ids?: string[]
+  tags?: string[]
+  remoteAddress?: string
+  poolGroup?: string
+  idleMoreThan?: number
+  olderThan?: number
+}
+
+export interface ShutdownOptions {
+  timeout?: number
+  closeCode?: number
+  closeReason?: string
+}
+
+export interface ConnectionManagerStats {
+  totalManagedConnections: number
+  connectionsByIP: Record<string, number>
+  rateLimitBuckets: number
+  healthStats: Record<ManagedConnection["healthStatus"], number>
+  poolStats: Record<string, number>
+}
+
+type ConnectionManagerEvents = {
+  "connection:added": [connection: ManagedConnection]
+  "connection:removed": [connectionId: string, reason: string]
+  "connection:health": [connectionId: string, result: HealthCheckResult]
+  "pool:full": [rejected: { ip: string, reason: string }]
+  "ratelimit:exceeded": [ip: string, attempt: number]
+  "cleanup:completed": [removedCount: number]
+}
+
+export class ConnectionManager extends EventEmitter<ConnectionManagerEvents> {
+  private config: ConnectionManagerConfig
+  private connections = new Map<string, ManagedConnection>()
+  private socketToId = new WeakMap<WebSocket, string>()
+  private connectionsPerIP = new Map<string, number>()
+  // Upgrades that were admitted, but are not registered yet
+  private pendingConnections = 0
+  private pendingPerIP = new Map<string, number>()
+  private rateLimitBuckets = new Map<string, number[]>()
+  private connectionCounter = 0
+  private cleanupTimer: ReturnType<typeof setInterval> | undefined
+  private healthCheckTimer: ReturnType<typeof setInterval> | undefined
+
+  constructor(config: Partial<ConnectionManagerConfig> = {}) {
+    super()
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  getConfig(): Readonly<ConnectionManagerConfig> {
+    return { ...this.config }
+  }
+
+  updateConfig(config: Partial<ConnectionManagerConfig>): void {
+    this.config = { ...this.config, ...config }
+    // Restart the background services so that new intervals take effect
+    this.stopTimers()
+    if (this.connections.size > 0) this.startTimers()
+  }
+
+  /**
+   * Checks whether a connection from the given address
+   * would currently be accepted, without recording it
+   * as an attempt.
+   */
+  canAcceptConnection(remoteAddress: string): AdmissionResult {
+    const { enablePooling, maxConnections, maxConnectionsPerIP, enableRateLimit, rateLimitMaxConnections, rateLimitWindow } = this.config
+
+    if (enablePooling && this.connections.size + this.pendingConnections >= maxConnections) {
+      return { allowed: false, reason: "pool:full", status: 503 }
+    }
+    const connectionsFromIP = (this.connectionsPerIP.get(remoteAddress) ?? 0) + (this.pendingPerIP.get(remoteAddress) ?? 0)
+    if (enablePooling && connectionsFromIP >= maxConnectionsPerIP) {
+      return { allowed: false, reason: "ip:full", status: 503 }
+    }
+    if (enableRateLimit) {
+      const attempts = this.pruneBucket(remoteAddress)
+      if (attempts.length >= rateLimitMaxConnections) {
+        const retryAfter = Math.ceil((attempts[0] + rateLimitWindow - Date.now()) / 1000)
+        return { allowed: false, reason: "ratelimit:exceeded", status: 429, retryAfter }
+      }
+    }
+    return { allowed: true }
+  }
+
+  /**
+   * Called for every incoming upgrade request. Records the
+   * attempt for rate limiting and emits the rejection events.
+   *
+   * Admitted upgrades count towards the limits until they are
+   * released, so that upgrades arriving while others are still
+   * rendering cannot exceed them.
+   */
+  admitConnection(remoteAddress: string): Admission {
+    const result = this.canAcceptConnection(remoteAddress)
+
+    if (this.config.enableRateLimit && Number.isFinite(this.config.rateLimitMaxConnections)) {
+      const attempts = this.pruneBucket(remoteAddress)
+      attempts.push(Date.now())
+      this.rateLimitBuckets.set(remoteAddress, attempts)
+      if (!result.allowed && result.reason === "ratelimit:exceeded") {
+        this.emit("ratelimit:exceeded", remoteAddress, attempts.length)
+      }
+    }
+    if (!result.allowed && result.reason !== "ratelimit:exceeded") {
+      this.emit("pool:full", { ip: remoteAddress, reason: result.reason })
+    }
+    if (!result.allowed) return result
+    return { allowed: true, release: this.reserve(remoteAddress) }
+  }
+
+  /**
+   * Starts the upgrade timer for a socket. If `done()` is not
+   * called within `upgradeTimeout`, the socket is answered with
+   * 408 and destroyed.
+   */
+  trackUpgrade(socket: Duplex): () => void {
+    const { upgradeTimeout } = this.config
+    if (!upgradeTimeout) return () => {}
+    const timer = setTimeout(() => {
+      if (socket.destroyed) return
+      recordUpgradeRejected(408)
+      socket.end("HTTP/1.1 408 Request Timeout\r\nConnection: close\r\n\r\n")
+      socket.destroy()
+    }, upgradeTimeout)
+    return () => clearTimeout(timer)
+  }
+
+  registerConnection(
+    socket: WebSocket,
+    wsSocket: ws.WebSocket,
+    req?: IncomingMessage,
+    id = `conn_${++this.connectionCounter}_${Date.now()}`,
+    remoteAddress = (req && getRemoteAddress(req)) ?? "unknown",
+  ): string {
+    const connectedAt = Date.now()
+    const connection: ManagedConnection = {
+      id,
+      socket,
+      wsSocket,
+      remoteAddress,
+      userAgent: req?.headers["user-agent"],
+      connectedAt,
+      lastActivity: connectedAt,
+      get age() {
+        return Date.now() - connectedAt
+      },
+      get idleTime() {
+        return Date.now() - this.lastActivity
+      },
+      get state() {
+        return STATE_NAMES[wsSocket.readyState]
+      },
+      tags: new Set,
+      data: new Map,
+      healthStatus: "unknown",
+      priority: 0,
+    }
+
+    this.connections.set(id, connection)
+    this.socketToId.set(socket, id)
+    this.connectionsPerIP.set(remoteAddress, (this.connectionsPerIP.get(remoteAddress) ?? 0) + 1)
+    this.startTimers()
+
+    wsSocket.on("message", () => {
+      connection.lastActivity = Date.now()
+    })
+    wsSocket.on("close", (code: number) => {
+      this.removeConnection(id, `closed with code ${code}`)
+    })
+
+    this.emit("connection:added", connection)
     return id
   }
+
+  removeConnection(connectionId: string, reason = "removed"): boolean {
+    const connection = this.connections.get(connectionId)
+    if (!connection) return false
+
+    this.connections.delete(connectionId)
+    this.socketToId.delete(connection.socket)
+    const remaining = (this.connectionsPerIP.get(connection.remoteAddress) ?? 1) - 1
+    if (remaining > 0) this.connectionsPerIP.set(connection.remoteAddress, remaining)
+    else this.connectionsPerIP.delete(connection.remoteAddress)
+
+    if (this.connections.size === 0) this.stopTimers()
+    this.emit("connection:removed", connectionId, reason)
+    return true
+  }
+
+  getConnectionId(socket: WebSocket): string | undefined {
+    return this.socketToId.get(socket)
+  }
+
+  getManagedConnection(connectionId: string): ManagedConnection | undefined {
+    return this.connections.get(connectionId)
+  }
+
+  getAllManagedConnections(): ManagedConnection[] {
+    return Array.from(this.connections.values())
+  }
+
+  getConnectionsByTag(tag: string): ManagedConnection[] {
+    return this.getAllManagedConnections().filter(connection => connection.tags.has(tag))
+  }
+
+  getConnectionsByPoolGroup(poolGroup: string): ManagedConnection[] {
+    return this.getAllManagedConnections().filter(connection => connection.poolGroup === poolGroup)
+  }
+
+  addConnectionTag(connectionId: string, tag: string): boolean {
+    const connection = this.connections.get(connectionId)
+    connection?.tags.add(tag)
+    return connection !== undefined
+  }
+
+  removeConnectionTag(connectionId: string, tag: string): boolean {
+    return this.connections.get(connectionId)?.tags.delete(tag) ?? false
+  }
+
+  setConnectionData(connectionId: string, key: string, value: unknown): boolean {
+    const connection = this.connections.get(connectionId)
+    connection?.data.set(key, value)
+    return connection !== undefined
+  }
+
+  getConnectionData<T = unknown>(connectionId: string, key: string): T | undefined {
+    return this.connections.get(connectionId)?.data.get(key) as T | undefined
+  }
+
+  /**
+   * Sends a ping and waits for the matching pong.
+   */
+  performHealthCheck(connectionId: string): Promise<HealthCheckResult> {
+    const connection = this.connections.get(connectionId)
+    if (!connection) return Promise.resolve({ healthy: false, error: "Connection not found" })
+
+    const { wsSocket } = connection
+    if (wsSocket.readyState !== wsSocket.OPEN) {
+      connection.healthStatus = "unhealthy"
+      return Promise.resolve({ healthy: false, error: `Connection is ${connection.state}` })
+    }
+
+    return new Promise<HealthCheckResult>(resolve => {
+      const start = Date.now()
+      const timer = setTimeout(() => {
+        wsSocket.off("pong", onPong)
+        resolve({ healthy: false, error: "Pong not received in time" })
+      }, HEALTH_CHECK_TIMEOUT)
+      function onPong() {
+        clearTimeout(timer)
+        resolve({ healthy: true, latency: Date.now() - start })
+      }
+      wsSocket.once("pong", onPong)
+      wsSocket.ping()
+    }).then(result => {
+      connection.healthStatus = result.healthy ? "healthy" : "unhealthy"
+      this.emit("connection:health", connectionId, result)
+      return result
+    })
+  }
+
+  async healthCheck(): Promise<Record<string, HealthCheckResult>> {
+    const ids = Array.from(this.connections.keys())
+    const results = await Promise.all(ids.map(id => this.performHealthCheck(id)))
+    return Object.fromEntries(ids.map((id, i) => [id, results[i]]))
+  }
+
+  /**
+   * Closes idle connections and connections selected by
+   * `customCleanupPolicy`, and prunes expired rate limit buckets.
+   */
+  cleanup(): number {
+    const { idleTimeout, customCleanupPolicy } = this.config
+    let removed = 0
+
+    for (const connection of this.connections.values()) {
+      if (connection.wsSocket.readyState === connection.wsSocket.CLOSED) {
+        this.removeConnection(connection.id, "stale")
+        removed++
+      } else if (idleTimeout > 0 && connection.idleTime > idleTimeout) {
+        connection.wsSocket.close(1000, "Idle timeout")
+        removed++
+      } else if (customCleanupPolicy?.(connection)) {
+        connection.wsSocket.close(1000, "Closed by cleanup policy")
+        removed++
+      }
+    }
+
+    for (const remoteAddress of this.rateLimitBuckets.keys()) {
+      if (this.pruneBucket(remoteAddress).length === 0) this.rateLimitBuckets.delete(remoteAddress)
+    }
+
+    this.emit("cleanup:completed", removed)
+    return removed
+  }
+
+  closeConnections(criteria: CloseCriteria = {}, code = 1000, reason?: string): number {
+    let closed = 0
+    for (const connection of this.connections.values()) {
+      if (!matchesCriteria(connection, criteria)) continue
+      connection.wsSocket.close(code, reason)
+      closed++
+    }
+    return closed
+  }
+
+  getStats(): ConnectionManagerStats {
+    const healthStats = { healthy: 0, unhealthy: 0, unknown: 0 }
+    const poolStats: Record<string, number> = {}
+    for (const connection of this.connections.values()) {
+      healthStats[connection.healthStatus]++
+      if (connection.poolGroup) poolStats[connection.poolGroup] = (poolStats[connection.poolGroup] ?? 0) + 1
+    }
+    return {
+      totalManagedConnections: this.connections.size,
+      connectionsByIP: Object.fromEntries(this.connectionsPerIP),
+      rateLimitBuckets: this.rateLimitBuckets.size,
+      healthStats,
+      poolStats,
+    }
+  }
+
+  /**
+   * Asks every connection to close and waits for them to do so,
+   * terminating whatever is still open after `timeout`.
+   */
+  async shutdown({ timeout = 5_000, closeCode = 1001, closeReason = "Server shutting down" }: ShutdownOptions = {}): Promise<void> {
+    this.stopTimers()
+    const connections = this.getAllManagedConnections()
+    const closed = connections.map(({ wsSocket }) => new Promise<void>(resolve => {
+      if (wsSocket.readyState === wsSocket.CLOSED) return resolve()
+      wsSocket.once("close", () => resolve())
+      wsSocket.close(closeCode, closeReason)
+    }))
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    await Promise.race([
+      Promise.all(closed),
+      new Promise<void>(resolve => timer = setTimeout(resolve, timeout)),
+    ])
+    clearTimeout(timer)
+
+    for (const { wsSocket } of connections) {
+      if (wsSocket.readyState !== wsSocket.CLOSED) wsSocket.terminate()
+    }
+  }
+
+  /**
+   * Stops the background services and removes the listeners,
+   * for a manager that is being replaced. Its connections
+   * are left as they are.
+   */
+  dispose(): void {
+    this.stopTimers()
+    this.removeAllListeners()
+  }
+
+  /**
+   * Holds a slot for an admitted upgrade, and returns
+   * the function that frees it, which only acts once.
+   */
+  private reserve(remoteAddress: string): () => void {
+    this.pendingConnections++
+    this.pendingPerIP.set(remoteAddress, (this.pendingPerIP.get(remoteAddress) ?? 0) + 1)
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.pendingConnections--
+      const remaining = this.pendingPerIP.get(remoteAddress)! - 1
+      if (remaining > 0) this.pendingPerIP.set(remoteAddress, remaining)
+      else this.pendingPerIP.delete(remoteAddress)
+    }
+  }
+
+  private pruneBucket(remoteAddress: string): number[] {
+    const cutoff = Date.now() - this.config.rateLimitWindow
+    const attempts = (this.rateLimitBuckets.get(remoteAddress) ?? []).filter(time => time > cutoff)
+    if (attempts.length > 0) this.rateLimitBuckets.set(remoteAddress, attempts)
+    return attempts
+  }
+
+  private startTimers(): void {
+    if (!this.cleanupTimer) {
+      this.cleanupTimer = setInterval(() => this.cleanup(), this.config.cleanupInterval)
+      this.cleanupTimer.unref?.()
+    }
+    if (this.config.enableHealthMonitoring && !this.healthCheckTimer) {
+      this.healthCheckTimer = setInterval(() => void this.healthCheck(), this.config.healthCheckInterval)
+      this.healthCheckTimer.unref?.()
+    }
+  }
+
+  private stopTimers(): void {
+    clearInterval(this.cleanupTimer)
+    clearInterval(this.healthCheckTimer)
+    this.cleanupTimer = undefined
+    this.healthCheckTimer = undefined
+  }
+}
+
+function matchesCriteria(connection: ManagedConnection, criteria: CloseCriteria): boolean {
+  const { ids, tags, remoteAddress, poolGroup, idleMoreThan, olderThan } = criteria
+  if (ids && !ids.includes(connection.id)) return false
+  if (tags && !tags.some(tag => connection.tags.has(tag))) return false
+  if (remoteAddress !== undefined && connection.remoteAddress !== remoteAddress) return false
+  if (poolGroup !== undefined && connection.poolGroup !== poolGroup) return false
+  if (idleMoreThan !== undefined && connection.idleTime <= idleMoreThan) return false
+  if (olderThan !== undefined && connection.age <= olderThan) return false
+  return true
+}
+
+/**
+ * Builds the response written to the socket when
+ * `admitConnection()` rejects an upgrade request.
+ */
+export function createRejectionResponse(result: Extract<AdmissionResult, { allowed: false }>): Response {
+  const headers = new Headers({ "Content-Type": "text/plain", "Connection": "close" })
+  if (result.retryAfter !== undefined) headers.set("Retry-After", String(result.retryAfter))
+  const message = result.status === 429 ? "Too many connection attempts" : "Too many connections"
+  return new Response(message, { status: result.status, statusText: result.status === 429 ? "Too Many Requests" : "Service Unavailable", headers })
+}
+
+let connectionManager: ConnectionManager | undefined
+
+/**
+ * Returns the connection manager used by the upgrade handlers,
+ * applying `config` to it when given.
+ */
+export function getConnectionManager(config?: Partial<ConnectionManagerConfig>): ConnectionManager {
+  if (!connectionManager) connectionManager = new ConnectionManager(config)
+  else if (config) connectionManager.updateConfig(config)
+  return connectionManager
+}
+
+/**
+ * Discards the connection manager, so that the next call to
+ * `getConnectionManager()` creates one with the default
+ * config. Used by the testing harness between tests.
+ */
+export function resetConnectionManager(): void {
+  connectionManager?.dispose()
+  connectionManager = undefined
+}
+
+export function getConnectionId(socket: WebSocket): string | undefined {
+  return getConnectionManager().getConnectionId(socket)
 }
 
 export const ConnectionManagerAPI = {
-  getInstance: () => new ConnectionManager(),
-  getStats: () => ({ totalConnections: 0 })
+  getInstance: () => getConnectionManager(),
+  getStats: () => getConnectionManager().getStats(),
+  healthCheck: () => getConnectionManager().healthCheck(),
+  closeConnections: (criteria?: CloseCriteria, code?: number, reason?: string) => getConnectionManager().closeConnections(criteria, code, reason),
+  shutdown: (options?: ShutdownOptions) => getConnectionManager().shutdown(options),
 }
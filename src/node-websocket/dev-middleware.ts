@@ -1,10 +1,18 @@
 import { AsyncLocalStorage } from "node:async_hooks"
-import type { APIContext, AstroIntegration, MiddlewareNext } from "astro"
-import * as ws from "ws"
+import * as path from "node:path"
+import type { APIContext, AstroIntegration, AstroIntegrationLogger, IntegrationResolvedRoute, MiddlewareNext } from "astro"
 import { UpgradeResponse, writeResponseToSocket } from "./response.js"
 import { WebSocket } from "./websocket.js"
 import { attach as _attach } from "./attach.js"
+import { getRemoteAddress, recordUpgradeRejected, registerConnection } from "./stats.js"
+import { createRejectionResponse, getConnectionManager } from "./connection-manager.js"
 import type { UpgradeHandler } from "./serve-websocket.js"
+import { createProtocolRejectionResponse, selectProtocol } from "./protocol.js"
+import { createOriginRejectionResponse, isOriginAllowed } from "./origin.js"
+import { resolveUpgradeOptions, type UpgradeWebSocketOptions, type WebSocketAdapterOptions } from "./options.js"
+import { createServerPool, type Handshake, type ServerPool } from "./upgrade-servers.js"
+import { traceUpgrade, type UpgradeTrace } from "./tracing.js"
+import { bindSession as _bindSession, startSession as _startSession } from "./session.js"
 
 export type ViteDevServer =
     Parameters<
@@ -31,16 +39,43 @@ type AstroDevHandler = (
  * assigned onto globalThis to keep it singular.
  */
 const upgradeRequestStorage: AsyncLocalStorage<[
-    wsServer: ws.WebSocketServer,
+    getServer: ServerPool,
     ...Parameters<UpgradeHandler>
 ]> =
     // @ts-expect-error
     globalThis.__upgradeRequestStorage ??= new AsyncLocalStorage
 
-const responseToSocketMap: WeakMap<Response, WebSocket> =
+const responseToSocketMap: WeakMap<Response, [socket: WebSocket, options: UpgradeWebSocketOptions]> =
     // @ts-expect-error
     globalThis.__responseToSocketMap ??= new WeakMap
 
+const handshakes: WeakMap<import("node:http").IncomingMessage, Handshake> =
+    // @ts-expect-error
+    globalThis.__handshakes ??= new WeakMap
+
+const upgradeTraces: WeakMap<import("node:http").IncomingMessage, UpgradeTrace> =
+    // @ts-expect-error
+    globalThis.__upgradeTraces ??= new WeakMap
+
+/**
+ * The client address of each upgrade request, as resolved
+ * with the adapter's `trustProxy` option when it arrived,
+ * and the release of the connection slot it was admitted
+ * with, which is held until the connection is registered,
+ * and the function that stops its `upgradeTimeout`.
+ */
+const admissions: WeakMap<import("node:http").IncomingMessage, { remoteAddress: string, release(): void, upgradeDone(): void }> =
+    // @ts-expect-error
+    globalThis.__admissions ??= new WeakMap
+
+/**
+ * The open sockets of each route, by pattern. They are
+ * added by the middleware, which Vite loads, and closed by
+ * the module loaded with the config, when the route changes.
+ */
+const routeSockets: Map<string, Set<WebSocket>> =
+    // @ts-expect-error
+    globalThis.__routeSockets ??= new Map
 
 /**
  * Similar to how `upgradeRequestStorage` and `responseToSocketMap`
@@ -63,9 +98,9 @@ const responseToSocketMap: WeakMap<Response, WebSocket> =
 // @ts-expect-error
 globalThis.__UpgradeResponse = UpgradeResponse
 
-function newUpgradeResponse(): UpgradeResponse {
+function newUpgradeResponse(init?: ResponseInit): UpgradeResponse {
     // @ts-expect-error
-    return new globalThis.__UpgradeResponse
+    return new globalThis.__UpgradeResponse(null, init)
 }
 
 // @ts-expect-error
@@ -84,6 +119,24 @@ function attach(...args: Parameters<typeof _attach>): void {
     return globalThis.__attach(...args)
 }
 
+// Sessions keep private state of the WebSocket instances,
+// so they must come from the same version as the class.
+// @ts-expect-error
+globalThis.__startSession = _startSession
+
+function startSession(...args: Parameters<typeof _startSession>): ReturnType<typeof _startSession> {
+    // @ts-expect-error
+    return globalThis.__startSession(...args)
+}
+
+// @ts-expect-error
+globalThis.__bindSession = _bindSession
+
+function bindSession(...args: Parameters<typeof _bindSession>): ReturnType<typeof _bindSession> {
+    // @ts-expect-error
+    return globalThis.__bindSession(...args)
+}
+
 /**
  * This dev-only middleware is responsible for all requests
  * that have been made as a result of an upgrade request.
@@ -119,11 +172,32 @@ export const onRequest = async function websocketDevMiddleware(context: APIConte
     }
 
 
+    const trace = upgradeTraces.get(upgradeRequest[1])
+    trace?.setRoute(context.routePattern)
+    const admission = admissions.get(upgradeRequest[1])
+    admission?.upgradeDone()
+
+    // The upgrade timed out while the route was rendering
+    if (upgradeRequest[2].destroyed) {
+        admission?.release()
+        if (response) return response
+        throw error
+    }
+
     if (response) {
         if (response instanceof UpgradeResponse) {
-            const standardWebSocket = responseToSocketMap.get(response)!
-            const [ wsServer, req, socket, head ] = upgradeRequest
-            wsServer.handleUpgrade(req, socket, head, ws => attach(standardWebSocket, ws))
+            const [ standardWebSocket, options ] = responseToSocketMap.get(response)!
+            const [ getServer, req, socket, head ] = upgradeRequest
+            handshakes.get(req)!.headers = response.headers
+            getServer(options).handleUpgrade(req, socket, head, ws => {
+                admission?.release()
+                const id = registerConnection(standardWebSocket, ws, req, admission?.remoteAddress)
+                getConnectionManager().registerConnection(standardWebSocket, ws, req, id, admission?.remoteAddress)
+                trace?.accept(standardWebSocket)
+                bindSession(standardWebSocket)
+                attach(standardWebSocket, ws, options)
+                trackRouteSocket(context.routePattern, standardWebSocket)
+            })
         } else {
             /**
              * If there was an upgrade request, but the response
@@ -131,6 +205,9 @@ export const onRequest = async function websocketDevMiddleware(context: APIConte
              * needs to be manually handled.
              */
             const socket = upgradeRequest[2]
+            admission?.release()
+            recordUpgradeRejected(response.status)
+            trace?.reject(response.status)
             await writeResponseToSocket(socket, response)
         }
         /**
@@ -143,6 +220,9 @@ export const onRequest = async function websocketDevMiddleware(context: APIConte
         return response
     }
 
+    admission?.release()
+    recordUpgradeRejected(500)
+    trace?.reject(500)
     await writeResponseToSocket(upgradeRequest[2], new Response(null, { status: 500 }))
 
     if (error && error instanceof Error) throw error
@@ -150,34 +230,192 @@ export const onRequest = async function websocketDevMiddleware(context: APIConte
     throw new Error("Unknown error", { cause: error })
 }
 
-const devLocals = {
-    isUpgradeRequest: true,
-    upgradeWebSocket() {
-        const response = newUpgradeResponse()
-        const socket = newWebSocket()
-        responseToSocketMap.set(response, socket)
-        return { socket, response }
+function trackRouteSocket(routePattern: string, socket: WebSocket) {
+    let sockets = routeSockets.get(routePattern)
+    if (!sockets) routeSockets.set(routePattern, sockets = new Set)
+    sockets.add(socket)
+    socket.addEventListener("close", () => {
+        sockets.delete(socket)
+        if (sockets.size === 0 && routeSockets.get(routePattern) === sockets) routeSockets.delete(routePattern)
+    })
+}
+
+/**
+ * The file of each route, by pattern, as resolved by Astro.
+ * Set through the `astro:routes:resolved` hook, which runs
+ * again whenever routes are added or removed.
+ */
+let routeEntrypoints = new Map<string, string>()
+
+export function setDevRoutes(routes: IntegrationResolvedRoute[]) {
+    routeEntrypoints = new Map(routes.map(route => [ route.pattern, route.entrypoint ]))
+}
+
+/**
+ * When a file changes, Vite re-executes the modules that import
+ * it, directly or not, on their next import. The sockets of the
+ * routes among them would keep running the handlers of the old
+ * module, so they are closed with 1012 "Service Restart", which
+ * tells clients to reconnect, and get the new handlers.
+ */
+function closeSocketsOnRouteChange(viteDevServer: ViteDevServer, logger?: AstroIntegrationLogger) {
+    const { root } = viteDevServer.config
+
+    function onFileChange(file: string) {
+        if (routeSockets.size === 0) return
+
+        const affectedFiles = new Set([ toPosixPath(path.resolve(root, file)) ])
+        const modules = [ ...viteDevServer.moduleGraph.getModulesByFile(toPosixPath(file)) ?? [] ]
+        const seen = new Set(modules)
+        for (const module of modules) {
+            if (module.file) affectedFiles.add(module.file)
+            for (const importer of module.importers) {
+                if (seen.has(importer)) continue
+                seen.add(importer)
+                modules.push(importer)
+            }
+        }
+
+        for (const [ routePattern, sockets ] of routeSockets) {
+            const entrypoint = routeEntrypoints.get(routePattern)
+            if (entrypoint === undefined || !affectedFiles.has(toPosixPath(path.resolve(root, entrypoint)))) continue
+            logger?.info(`${path.relative(root, file)} changed, closing ${sockets.size} WebSocket connection(s) to ${routePattern}`)
+            for (const socket of sockets) socket.close(1012, "Service Restart")
+        }
+    }
+
+    viteDevServer.watcher.on("change", onFileChange)
+    viteDevServer.watcher.on("unlink", onFileChange)
+}
+
+function toPosixPath(file: string) {
+    return file.replaceAll("\\", "/")
+}
+
+function createDevLocals(adapterOptions?: WebSocketAdapterOptions) {
+    return {
+        isUpgradeRequest: true,
+        upgradeWebSocket(options?: UpgradeWebSocketOptions) {
+            const resolvedOptions = resolveUpgradeOptions(adapterOptions, options)
+            const socket = newWebSocket()
+            const [ , req ] = upgradeRequestStorage.getStore()!
+            if (!isOriginAllowed(req.headers.origin, req.headers.host, resolvedOptions.allowedOrigins)) {
+                return { socket, response: createOriginRejectionResponse() }
+            }
+            const selection = selectProtocol(req.headers["sec-websocket-protocol"], resolvedOptions.protocols)
+            if (!selection.accepted) {
+                return { socket, response: createProtocolRejectionResponse() }
+            }
+            handshakes.set(req, { protocol: selection.protocol })
+            if (resolvedOptions.session) {
+                startSession(socket, req.url ?? "/", resolvedOptions.session === true ? {} : resolvedOptions.session)
+            }
+            const response = newUpgradeResponse({ headers: resolvedOptions.headers })
+            responseToSocketMap.set(response, [ socket, resolvedOptions ])
+            return { socket, response }
+        }
     }
 }
 
-export function handleUpgradeRequests(viteDevServer: ViteDevServer) {
+/**
+ * The upgrade handler of the running dev server, kept on globalThis,
+ * since host servers import this module separately from the
+ * integration that starts the dev server.
+ */
+function getDevUpgradeHandler(): UpgradeHandler | undefined {
+    // @ts-expect-error
+    return globalThis.__devUpgradeHandler
+}
+
+function setDevUpgradeHandler(handler: UpgradeHandler) {
+    // @ts-expect-error
+    globalThis.__devUpgradeHandler = handler
+}
+
+/**
+ * Passes an upgrade request to the routes of the dev server.
+ *
+ * When Vite runs in middleware mode, as when Astro's dev server is
+ * mounted in Express, it has no HTTP server to listen to, so the
+ * host server has to call this from its own "upgrade" listener.
+ *
+ * Returns `false`, without touching the socket, for Vite's own HMR
+ * connections, and before the dev server has started, so that the
+ * host can pass the request to another handler.
+ */
+export function handleDevUpgrade(...[ req, socket, head ]: Parameters<UpgradeHandler>): boolean {
+    const handler = getDevUpgradeHandler()
+    if (!handler || req.headers["sec-websocket-protocol"] === "vite-hmr") return false
+    handler(req, socket, head)
+    return true
+}
 
-    const astroDevHandler =
-        viteDevServer.middlewares.stack
-        .find(stackItem => "name" in stackItem.handle && stackItem.handle.name === "astroDevHandler")!
-        .handle as AstroDevHandler
+export function handleUpgradeRequests(viteDevServer: ViteDevServer, adapterOptions?: WebSocketAdapterOptions, logger?: AstroIntegrationLogger) {
 
-    const wsServer = new ws.WebSocketServer({ noServer: true })
+    const devLocals = createDevLocals(adapterOptions)
+    closeSocketsOnRouteChange(viteDevServer, logger)
 
-    // vite dev server may be http2 or may not exist if it runs in middleware mode
-    // neither of these cases are supported by the current implementation
-    const httpServer = viteDevServer.httpServer as import("node:http").Server
+    const getServer = createServerPool(req => handshakes.get(req))
 
-    httpServer.on("upgrade", (req, socket, head) => {
+    /**
+     * Astro adds its handler after the integrations' hooks run, so
+     * it is looked up on the first upgrade. It is only found by its
+     * name, which a future version of Astro could change.
+     */
+    let astroDevHandler: AstroDevHandler | undefined
+    function findAstroDevHandler() {
+        return astroDevHandler ??= viteDevServer.middlewares.stack
+            .find(stackItem => "name" in stackItem.handle && stackItem.handle.name === "astroDevHandler")
+            ?.handle as AstroDevHandler | undefined
+    }
+
+    const handler: UpgradeHandler = async (req, socket, head) => {
         if (req.headers["sec-websocket-protocol"] === "vite-hmr") return
+        const trace = traceUpgrade(req, socket)
+
+        async function reject(response: Response) {
+            recordUpgradeRejected(response.status)
+            trace.reject(response.status)
+            await writeResponseToSocket(socket, response)
+            socket.destroy()
+        }
+
+        const astroDevHandler = findAstroDevHandler()
+        if (!astroDevHandler) {
+            const message = "WebSocket upgrades cannot be handled, because Astro's request handler (\"astroDevHandler\") was not found among the Vite dev server's middlewares. This version of Astro may not be supported yet."
+            if (logger) logger.error(message)
+            else console.error(`[WebSocket] ${message}`)
+            return reject(new Response(message, { status: 500, headers: { "Content-Type": "text/plain" } }))
+        }
+        if (!isOriginAllowed(req.headers.origin, req.headers.host, adapterOptions?.allowedOrigins)) {
+            return reject(createOriginRejectionResponse())
+        }
+        const remoteAddress = getRemoteAddress(req, adapterOptions?.trustProxy) ?? "unknown"
+        const admission = getConnectionManager().admitConnection(remoteAddress)
+        if (!admission.allowed) {
+            return reject(createRejectionResponse(admission))
+        }
         (req as any)[Symbol.for("astro.locals")] = devLocals
-        upgradeRequestStorage.run([ wsServer, req, socket, head ], astroDevHandler, req, fakeResponse)
-    })
+        upgradeTraces.set(req, trace)
+        const upgradeDone = getConnectionManager().trackUpgrade(socket)
+        admissions.set(req, { remoteAddress, release: admission.release, upgradeDone })
+        // Frees the slot if the socket closes before the connection is registered
+        socket.once("close", admission.release)
+        upgradeRequestStorage.run([ getServer, req, socket, head ], astroDevHandler, req, fakeResponse)
+    }
+    setDevUpgradeHandler(handler)
+
+    /**
+     * With `server.https`, Vite serves HTTP/2 with a fallback to
+     * HTTP/1.1, which browsers use for WebSockets. The fallback
+     * emits "upgrade" on the HTTP/2 server like `http.Server` does.
+     */
+    const { httpServer } = viteDevServer
+    if (httpServer) {
+        (httpServer as import("node:http").Server | import("node:https").Server).on("upgrade", handler)
+    } else {
+        logger?.info("Vite runs in middleware mode. Call handleDevUpgrade() from the \"upgrade\" listener of your server to handle WebSocket upgrades.")
+    }
 }
 
 const fakeResponse = {
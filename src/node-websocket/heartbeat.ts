@@ -0,0 +1,63 @@
+import type * as ws from "ws"
+
+export interface HeartbeatOptions {
+    /**
+     * Milliseconds between pings sent to the peer.
+     * @default 30000
+     */
+    interval?: number
+    /**
+     * Number of consecutive pings that may go unanswered
+     * before the peer is considered dead and terminated.
+     * @default 1
+     */
+    maxMissedPongs?: number
+}
+
+/**
+ * Periodically pings the peer using `ws`'s ping/pong frames.
+ *
+ * Browsers answer pings automatically, so a peer that stops
+ * answering is most likely a half-open TCP connection, which
+ * would otherwise only be noticed when the OS gives up on it.
+ *
+ * Returns a function that stops the heartbeat.
+ */
+export function startHeartbeat(
+    ws: ws.WebSocket,
+    { interval = 30_000, maxMissedPongs = 1 }: HeartbeatOptions,
+    callbacks: {
+        onRoundTrip(roundTripTime: number): void
+        onTimeout(): void
+    },
+): () => void {
+    let missedPongs = 0
+    let lastPingAt = 0
+
+    const timer = setInterval(function heartbeat() {
+        if (ws.readyState !== ws.OPEN) return
+        if (missedPongs >= maxMissedPongs) {
+            stop()
+            callbacks.onTimeout()
+            return
+        }
+        missedPongs++
+        lastPingAt = Date.now()
+        ws.ping()
+    }, interval)
+
+    function onPong() {
+        missedPongs = 0
+        callbacks.onRoundTrip(Date.now() - lastPingAt)
+    }
+
+    function stop() {
+        clearInterval(timer)
+        ws.off("pong", onPong)
+        ws.off("close", stop)
+    }
+
+    ws.on("pong", onPong)
+    ws.on("close", stop)
+    return stop
+}
@@ -0,0 +1,21 @@
+import type { APIRoute } from "astro"
+import { WebSocketStats } from "./stats.js"
+import { PROMETHEUS_CONTENT_TYPE } from "./prometheus.js"
+
+/**
+ * Serves the WebSocket metrics of the current process for
+ * Prometheus to scrape. Injected by the `websocket.metricsRoute`
+ * adapter option, or re-exported from a page:
+ *
+ * ```ts
+ * // src/pages/metrics.ts
+ * export { GET, prerender } from "zastro-websockets-node/metrics"
+ * ```
+ */
+export const GET: APIRoute = () => {
+  return new Response(WebSocketStats.toPrometheus(), {
+    headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE },
+  })
+}
+
+export const prerender = false
@@ -0,0 +1,153 @@
+import type * as ws from "ws"
+import type { HeartbeatOptions } from "./heartbeat.js"
+import type { AllowedOrigins } from "./origin.js"
+import type { ProtocolSelector } from "./protocol.js"
+import type { RateLimitOptions } from "./rate-limit.js"
+import type { GracefulShutdownOptions } from "./shutdown.js"
+import type { SessionOptions } from "./session.js"
+import type { SendQueueOptions } from "./send-queue.js"
+import type { TrustProxy } from "./stats.js"
+
+/**
+ * Options accepted by `locals.upgradeWebSocket()`,
+ * applied to the socket created for that request.
+ */
+export interface UpgradeWebSocketOptions {
+    /**
+     * Pings the peer periodically and terminates it when it stops
+     * answering. Overrides the adapter's `websocket.heartbeat`
+     * option, and `false` disables it for this socket.
+     */
+    heartbeat?: HeartbeatOptions | false
+    /**
+     * Subprotocols the route supports, in order of preference,
+     * or a function that picks one from those the client offered.
+     * The handshake is rejected with 400 when none of them match.
+     *
+     * When omitted, the first protocol offered by the client is used.
+     */
+    protocols?: ProtocolSelector
+    /**
+     * The largest message, in bytes, that the peer may send.
+     * Larger messages close the connection with 1009.
+     * Overrides the adapter's `websocket.maxPayload` option.
+     * Like `perMessageDeflate`, it should be the same on every
+     * request, since a `ws` server is kept for each value.
+     * @default 104857600 (100 MiB)
+     */
+    maxPayload?: number
+    /**
+     * Enables the permessage-deflate extension, with `ws`'s options.
+     * Overrides the adapter's `websocket.perMessageDeflate` option.
+     * @default false
+     */
+    perMessageDeflate?: boolean | ws.PerMessageDeflateOptions
+    /**
+     * Additional headers to send with the 101 response.
+     * Headers set on the returned response by the route or
+     * by middleware, such as cookies, are sent as well.
+     */
+    headers?: HeadersInit
+    /**
+     * Bounds the memory held for messages the peer has not
+     * received yet. Merged over the adapter's `websocket.sendQueue`
+     * option.
+     */
+    sendQueue?: SendQueueOptions
+    /**
+     * Limits the rate of messages the peer may send. Merged
+     * over the adapter's `websocket.rateLimit` option, and
+     * `false` disables it for this socket.
+     */
+    rateLimit?: RateLimitOptions | false
+    /**
+     * Origins allowed to open a socket on this route, as globs
+     * or functions. Checked in addition to the adapter's
+     * `websocket.allowedOrigins` option, which is checked before
+     * the route renders. Other origins are rejected with 403.
+     */
+    allowedOrigins?: AllowedOrigins
+    /**
+     * Makes the socket part of a session that a client can
+     * resume after reconnecting, with the messages it missed
+     * replayed. Cannot be combined with the `"drop-oldest"`
+     * send queue policy, since clients count the messages
+     * they receive to tell which ones they missed.
+     */
+    session?: SessionOptions | true
+}
+
+/**
+ * Defaults for every socket, set through the
+ * `websocket` option of the node adapter.
+ */
+export interface WebSocketAdapterOptions {
+    heartbeat?: HeartbeatOptions | false
+    maxPayload?: number
+    perMessageDeflate?: boolean | ws.PerMessageDeflateOptions
+    sendQueue?: SendQueueOptions
+    rateLimit?: RateLimitOptions
+    /**
+     * Origins allowed to open a socket on any route, as globs
+     * such as `"https://*.example.com"`. Upgrade requests from
+     * other origins are rejected with 403 before rendering.
+     * Requests from the app's own origin, and requests without
+     * an `Origin` header, are always allowed.
+     *
+     * Only globs can be used here, since the adapter's options
+     * are serialized into the build. Functions can be passed
+     * to `upgradeWebSocket()` instead.
+     */
+    allowedOrigins?: string | string[]
+    /**
+     * Reads the client's address from `X-Forwarded-For` when the
+     * server is behind reverse proxies: `true` for one proxy, the
+     * number of proxies, or their addresses. The address is the
+     * right-most one that is not a trusted proxy, and is used for
+     * `maxConnectionsPerIP`, the upgrade rate limit and the stats.
+     * By default, the header is ignored, since clients can set it.
+     * @default false
+     */
+    trustProxy?: TrustProxy
+    /**
+     * How the standalone server drains the sockets when the
+     * process receives SIGTERM or SIGINT. `false` leaves signal
+     * handling to the application.
+     */
+    shutdown?: GracefulShutdownOptions | false
+    /**
+     * Serves the metrics of `WebSocketStats.toPrometheus()`
+     * at this path, such as `"/metrics"`. Not served by default.
+     */
+    metricsRoute?: string
+}
+
+/**
+ * Combines the adapter-wide defaults with
+ * the options passed by the route.
+ */
+export function resolveUpgradeOptions(
+    adapterOptions: WebSocketAdapterOptions = {},
+    routeOptions: UpgradeWebSocketOptions = {},
+): UpgradeWebSocketOptions {
+    const sendQueue = mergeDefined(adapterOptions.sendQueue, routeOptions.sendQueue) || undefined
+    if (routeOptions.session && sendQueue?.policy === "drop-oldest") {
+        throw new TypeError("The session option cannot be combined with the \"drop-oldest\" send queue policy.")
+    }
+    return {
+        heartbeat: routeOptions.heartbeat === false ? false : mergeDefined(adapterOptions.heartbeat, routeOptions.heartbeat),
+        protocols: routeOptions.protocols,
+        maxPayload: routeOptions.maxPayload ?? adapterOptions.maxPayload,
+        perMessageDeflate: routeOptions.perMessageDeflate ?? adapterOptions.perMessageDeflate,
+        headers: routeOptions.headers,
+        sendQueue,
+        rateLimit: routeOptions.rateLimit === false ? false : mergeDefined(adapterOptions.rateLimit, routeOptions.rateLimit),
+        allowedOrigins: routeOptions.allowedOrigins,
+        session: routeOptions.session,
+    }
+}
+
+function mergeDefined<T extends object>(base: T | false | undefined, override: T | undefined): T | false | undefined {
+    if (override === undefined) return base
+    return { ...(base || {}), ...override }
+}
@@ -0,0 +1,70 @@
+/**
+ * Either a glob matched against the request's `Origin` header,
+ * such as `"https://*.example.com"`, where `*` matches any
+ * characters except `/`, or a function that is given the
+ * value of the header.
+ */
+export type OriginMatcher = string | ((origin: string) => boolean)
+
+export type AllowedOrigins = OriginMatcher | readonly OriginMatcher[]
+
+const globs = new Map<string, RegExp>()
+
+/**
+ * Whether a request may be upgraded, based on its `Origin` header.
+ *
+ * Browsers send the cookies of the app's site with upgrade requests
+ * made by any other site, so without this check, a page on another
+ * site can open an authenticated socket on behalf of its visitor.
+ *
+ * Requests are allowed when no allowlist is given, when they have no
+ * `Origin` header, which browsers always send, when the origin has
+ * the same host as the request, or when any of the matchers match.
+ */
+export function isOriginAllowed(
+    origin: string | string[] | null | undefined,
+    host: string | null | undefined,
+    allowedOrigins: AllowedOrigins | undefined,
+): boolean {
+    if (allowedOrigins === undefined) return true
+    if (origin === undefined || origin === null) return true
+    // Repeated headers are not sent by browsers
+    if (typeof origin !== "string") return false
+    if (host && hostOf(origin) === host.toLowerCase()) return true
+
+    const matchers = Array.isArray(allowedOrigins) ? allowedOrigins : [allowedOrigins] as OriginMatcher[]
+    return matchers.some(matcher => {
+        if (typeof matcher === "function") return matcher(origin)
+        // Anything else, like a function lost when the adapter's
+        // options were serialized into the build, matches nothing.
+        if (typeof matcher !== "string") return false
+        return globToRegExp(matcher).test(origin)
+    })
+}
+
+export function createOriginRejectionResponse(): Response {
+    return new Response("The origin of the request is not allowed to open a WebSocket.", {
+        status: 403,
+        statusText: "Forbidden",
+        headers: { "Content-Type": "text/plain" },
+    })
+}
+
+function hostOf(origin: string): string | undefined {
+    try {
+        return new URL(origin).host
+    } catch {
+        // The "null" origin of sandboxed documents
+        return undefined
+    }
+}
+
+function globToRegExp(glob: string): RegExp {
+    let regExp = globs.get(glob)
+    if (!regExp) {
+        const source = glob.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^/]*")
+        regExp = new RegExp(`^${source}$`, "i")
+        globs.set(glob, regExp)
+    }
+    return regExp
+}
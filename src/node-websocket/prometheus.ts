@@ -0,0 +1,82 @@
+import type { ConnectionStats, WebSocketMetrics } from "./stats.js"
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8"
+
+const PREFIX = "zastro_websocket"
+
+type Labels = Record<string, string | number>
+
+/**
+ * Renders the stats in the Prometheus text exposition format.
+ *
+ * Room sizes are not exported per room, since room names are
+ * chosen by the application, and can have an unbounded number
+ * of values, like user ids.
+ */
+export function renderPrometheus(stats: ConnectionStats, metrics: WebSocketMetrics): string {
+  const lines: string[] = []
+
+  function metric(name: string, type: "counter" | "gauge" | "histogram", help: string, samples: [suffix: string, labels: Labels, value: number][]) {
+    lines.push(`# HELP ${PREFIX}_${name} ${help}`)
+    lines.push(`# TYPE ${PREFIX}_${name} ${type}`)
+    for (const [suffix, labels, value] of samples) {
+      lines.push(`${PREFIX}_${name}${suffix}${formatLabels(labels)} ${formatValue(value)}`)
+    }
+  }
+
+  metric("connections", "gauge", "Current WebSocket connections, by ready state.",
+    Object.entries(stats.connectionsByState).map(([state, count]) => ["", { state: state.toLowerCase() }, count]))
+
+  metric("upgrades_total", "counter", "WebSocket upgrade requests, by result and, for rejections, response status.", [
+    ["", { result: "accepted" }, metrics.upgradesAccepted],
+    ...Object.entries(metrics.upgradesRejected).map(([status, count]): [string, Labels, number] => ["", { result: "rejected", status }, count]),
+  ])
+
+  metric("messages_total", "counter", "WebSocket messages, by direction.", [
+    ["", { direction: "in" }, metrics.messagesReceived],
+    ["", { direction: "out" }, metrics.messagesSent],
+  ])
+
+  metric("rate_limited_messages_total", "counter", "Incoming WebSocket messages that exceeded their socket's rate limit.", [
+    ["", {}, metrics.messagesRateLimited],
+  ])
+
+  metric("bytes_total", "counter", "Payload bytes of WebSocket messages, by direction.", [
+    ["", { direction: "in" }, metrics.bytesReceived],
+    ["", { direction: "out" }, metrics.bytesSent],
+  ])
+
+  metric("closes_total", "counter", "Closed WebSocket connections, by close code.",
+    Object.entries(metrics.closeCodes).map(([code, count]) => ["", { code }, count]))
+
+  const { buckets, sum, count } = metrics.connectionDuration
+  metric("connection_duration_seconds", "histogram", "Duration of closed WebSocket connections.", [
+    ...buckets.map(({ le, count }): [string, Labels, number] => ["_bucket", { le }, count]),
+    ["_bucket", { le: "+Inf" }, count],
+    ["_sum", {}, sum],
+    ["_count", {}, count],
+  ])
+
+  metric("rooms", "gauge", "Rooms with at least one member.", [
+    ["", {}, Object.keys(stats.rooms).length],
+  ])
+
+  return lines.join("\n") + "\n"
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ""
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`).join(",")}}`
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, "\\\"")
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN"
+  if (value === Infinity) return "+Inf"
+  if (value === -Infinity) return "-Inf"
+  return String(value)
+}
@@ -0,0 +1,44 @@
+/**
+ * Either the subprotocols the route supports, in order of
+ * preference, or a function that picks one of the protocols
+ * offered by the client.
+ */
+export type ProtocolSelector = readonly string[] | ((offered: string[]) => string | undefined)
+
+export type ProtocolSelection =
+    | { accepted: true, protocol?: string }
+    | { accepted: false }
+
+/**
+ * Picks the subprotocol to respond with, based on the
+ * client's `Sec-WebSocket-Protocol` request header.
+ *
+ * When the route does not specify any protocols, no
+ * negotiation takes place. When it does, but none of them
+ * were offered, the handshake must be rejected.
+ */
+export function selectProtocol(header: string | string[] | null | undefined, selector: ProtocolSelector | undefined): ProtocolSelection {
+    if (selector === undefined) return { accepted: true }
+
+    const offered = parseProtocolHeader(header)
+    const protocol = typeof selector === "function"
+        ? selector(offered)
+        : selector.find(protocol => offered.includes(protocol))
+
+    if (protocol === undefined || !offered.includes(protocol)) return { accepted: false }
+    return { accepted: true, protocol }
+}
+
+export function parseProtocolHeader(header: string | string[] | null | undefined): string[] {
+    if (!header) return []
+    const value = Array.isArray(header) ? header.join(",") : header
+    return value.split(",").map(protocol => protocol.trim()).filter(Boolean)
+}
+
+export function createProtocolRejectionResponse(): Response {
+    return new Response("None of the requested WebSocket subprotocols are supported.", {
+        status: 400,
+        statusText: "Bad Request",
+        headers: { "Content-Type": "text/plain" },
+    })
+}
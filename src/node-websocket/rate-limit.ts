@@ -0,0 +1,97 @@
+import type * as ws from "ws"
+
+export interface RateLimitOptions {
+    /**
+     * Messages per second the peer may send, on average.
+     * @default 100
+     */
+    rate?: number
+    /**
+     * Messages the peer may send at once after being
+     * quiet, before the average rate applies.
+     * @default rate
+     */
+    burst?: number
+    /**
+     * What happens to a message that exceeds the limit:
+     * - `"drop"` discards it.
+     * - `"delay"` holds it, and pauses reading from the socket
+     *   until the peer is within the limit again.
+     * - `"close"` closes the connection with 1008.
+     * @default "close"
+     */
+    policy?: "drop" | "delay" | "close"
+}
+
+/**
+ * Limits the rate of incoming messages with a token bucket.
+ *
+ * Returns a function that takes each incoming message, as a
+ * function that dispatches it, and calls it once the message
+ * is within the limit.
+ */
+export function startRateLimit(
+    ws: ws.WebSocket,
+    { rate = 100, burst = rate, policy = "close" }: RateLimitOptions,
+    callbacks: {
+        onLimit(): void
+        pause(): void
+        resume(): void
+    },
+): (dispatch: () => void) => void {
+    let tokens = burst
+    let refilledAt = Date.now()
+    let closed = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const held: (() => void)[] = []
+
+    function refill() {
+        const now = Date.now()
+        tokens = Math.min(burst, tokens + (now - refilledAt) * rate / 1000)
+        refilledAt = now
+    }
+
+    function take(): boolean {
+        refill()
+        if (tokens < 1) return false
+        tokens--
+        return true
+    }
+
+    function release() {
+        timer = undefined
+        while (held.length > 0 && take()) held.shift()!()
+        if (held.length > 0) schedule()
+        else callbacks.resume()
+    }
+
+    function schedule() {
+        timer = setTimeout(release, Math.ceil((1 - tokens) * 1000 / rate))
+    }
+
+    // Messages that arrived before the close are delivered before
+    // the "close" event, as they would have been without the limit.
+    ws.on("close", function onClose() {
+        clearTimeout(timer)
+        for (const dispatch of held.splice(0)) dispatch()
+    })
+
+    return function receive(dispatch) {
+        if (closed) return
+        // Keep the order of the messages that are held
+        if (held.length === 0 && take()) return dispatch()
+
+        callbacks.onLimit()
+        if (policy === "drop") return
+        if (policy === "close") {
+            closed = true
+            ws.close(1008, "Rate limit exceeded")
+            return
+        }
+        held.push(dispatch)
+        if (timer === undefined) {
+            callbacks.pause()
+            schedule()
+        }
+    }
+}
@@ -2,6 +2,8 @@ import { pipeline } from "node:stream/promises"
 
 /**
  * Custom subclass because spec-compliant Response objects can't have a status of 101.
+ *
+ * Its headers are sent along with the 101 response.
  */
 export class UpgradeResponse extends Response {
     readonly status = 101
@@ -0,0 +1,182 @@
+import type { WebSocket } from "./websocket.js"
+import { processId, toBrokerData, type Broker, type BrokerMessage } from "./broker.js"
+
+type MessageData = string | ArrayBufferLike | Blob | ArrayBufferView
+
+export interface PublishOptions {
+  /** Sockets that should not receive the message, usually the sender */
+  except?: WebSocket | Iterable<WebSocket>
+}
+
+/**
+ * Groups sockets under names, so that a message can be sent
+ * to every socket in a group. Rooms exist while they have at
+ * least one member, and sockets leave all of their rooms
+ * when they close.
+ *
+ * Rooms are local to the process, unless a broker is set, in
+ * which case messages published to a room also reach its
+ * members in the other processes connected to the broker.
+ */
+class RoomRegistry {
+  private rooms = new Map<string, Set<WebSocket>>()
+  private socketRooms = new WeakMap<WebSocket, Set<string>>()
+  private broker: Broker | undefined
+  /** Unsubscribe functions of the rooms that have local members */
+  private subscriptions = new Map<string, () => void>()
+  /** Keeps the messages handed to the broker in the order they were published */
+  private brokerQueue: Promise<void> = Promise.resolve()
+
+  /**
+   * Publishes through `broker` from now on, and subscribes to
+   * the rooms that have members in this process. Passing
+   * `undefined` makes rooms local to the process again.
+   */
+  setBroker(broker: Broker | undefined): void {
+    for (const unsubscribe of this.subscriptions.values()) unsubscribe()
+    this.subscriptions.clear()
+    this.broker = broker
+    for (const room of this.rooms.keys()) this.subscribe(room)
+  }
+
+  join(socket: WebSocket, room: string): void {
+    assertRoomName(room)
+    if (isClosing(socket)) return
+
+    let joined = this.socketRooms.get(socket)
+    if (!joined) {
+      joined = new Set()
+      this.socketRooms.set(socket, joined)
+      socket.addEventListener("close", () => this.leaveAll(socket), { once: true })
+    }
+    joined.add(room)
+
+    let members = this.rooms.get(room)
+    if (!members) {
+      members = new Set()
+      this.rooms.set(room, members)
+      this.subscribe(room)
+    }
+    members.add(socket)
+  }
+
+  leave(socket: WebSocket, room: string): void {
+    this.socketRooms.get(socket)?.delete(room)
+    const members = this.rooms.get(room)
+    if (!members) return
+    members.delete(socket)
+    if (members.size === 0) {
+      this.rooms.delete(room)
+      this.subscriptions.get(room)?.()
+      this.subscriptions.delete(room)
+    }
+  }
+
+  leaveAll(socket: WebSocket): void {
+    for (const room of this.roomsOf(socket)) this.leave(socket, room)
+  }
+
+  /**
+   * Sends a message to every member of a room that is not
+   * closing. Members that are still connecting receive it
+   * once they open. Returns the number of recipients in this
+   * process; members in other processes receive it through
+   * the broker, if one is set.
+   */
+  publish(room: string, data: MessageData, { except }: PublishOptions = {}): number {
+    assertRoomName(room)
+    const broker = this.broker
+    if (broker) {
+      const brokerData = toBrokerData(data)
+      this.brokerQueue = this.brokerQueue
+        .then(async () => broker.publish(topicOf(room), { origin: processId, data: await brokerData }))
+        .catch(error => console.error(`[WebSocket Rooms] Failed to publish to room "${room}" through the broker:`, error))
+    }
+    return this.deliver(room, data, toSet(except))
+  }
+
+  private deliver(room: string, data: MessageData, excluded: Set<WebSocket>): number {
+    const members = this.rooms.get(room)
+    if (!members) return 0
+
+    let recipients = 0
+    for (const socket of members) {
+      if (excluded.has(socket) || isClosing(socket)) continue
+      socket.send(data)
+      recipients++
+    }
+    return recipients
+  }
+
+  private subscribe(room: string): void {
+    if (!this.broker) return
+    const unsubscribe = this.broker.subscribe(topicOf(room), (message: BrokerMessage) => {
+      if (message.origin !== processId) this.deliver(room, message.data, new Set())
+    })
+    this.subscriptions.set(room, unsubscribe)
+  }
+
+  members(room: string): Set<WebSocket> {
+    return new Set(this.rooms.get(room))
+  }
+
+  roomsOf(socket: WebSocket): Set<string> {
+    return new Set(this.socketRooms.get(socket))
+  }
+
+  has(socket: WebSocket, room: string): boolean {
+    return this.rooms.get(room)?.has(socket) ?? false
+  }
+
+  size(room: string): number {
+    return this.rooms.get(room)?.size ?? 0
+  }
+
+  list(): string[] {
+    return [...this.rooms.keys()]
+  }
+
+  /** Number of members of each room */
+  getRoomSizes(): Record<string, number> {
+    const sizes: Record<string, number> = {}
+    for (const [room, members] of this.rooms) sizes[room] = members.size
+    return sizes
+  }
+}
+
+function assertRoomName(room: unknown): asserts room is string {
+  if (typeof room !== "string" || room.length === 0) {
+    throw new TypeError(`Room names must be non-empty strings, but ${JSON.stringify(room)} was given.`)
+  }
+}
+
+/** Brokers may be shared with other features, so room topics are prefixed */
+function topicOf(room: string): string {
+  return `room:${room}`
+}
+
+function isClosing(socket: WebSocket): boolean {
+  return socket.readyState === socket.CLOSING || socket.readyState === socket.CLOSED
+}
+
+function toSet(except: PublishOptions["except"]): Set<WebSocket> {
+  if (!except) return new Set()
+  if (Symbol.iterator in except) return new Set(except)
+  return new Set([except])
+}
+
+const registry = new RoomRegistry()
+
+export const rooms = {
+  join: (socket: WebSocket, room: string) => registry.join(socket, room),
+  leave: (socket: WebSocket, room: string) => registry.leave(socket, room),
+  leaveAll: (socket: WebSocket) => registry.leaveAll(socket),
+  publish: (room: string, data: MessageData, options?: PublishOptions) => registry.publish(room, data, options),
+  members: (room: string) => registry.members(room),
+  roomsOf: (socket: WebSocket) => registry.roomsOf(socket),
+  has: (socket: WebSocket, room: string) => registry.has(socket, room),
+  size: (room: string) => registry.size(room),
+  list: () => registry.list(),
+  getRoomSizes: () => registry.getRoomSizes(),
+  setBroker: (broker: Broker | undefined) => registry.setBroker(broker),
+}
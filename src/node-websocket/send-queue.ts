@@ -0,0 +1,237 @@
+import type * as ws from "ws"
+
+type SendData = string | ArrayBufferLike | Blob | ArrayBufferView
+
+export interface SendQueueOptions {
+    /**
+     * Number of buffered bytes, counting both the socket's
+     * buffer and the wrapper's queue, above which `policy`
+     * applies.
+     * @default Infinity
+     */
+    highWaterMark?: number
+    /**
+     * What to do with messages sent while above the high-water mark.
+     *
+     * - `"queue"` holds them until the socket drains.
+     * - `"drop-oldest"` holds them, but discards the oldest held
+     *   messages to stay below the high-water mark.
+     * - `"close"` closes the connection with 1008.
+     *
+     * @default "queue"
+     */
+    policy?: "queue" | "drop-oldest" | "close"
+}
+
+interface QueuedMessage {
+    data: SendData
+    size: number
+    resolve(): void
+    reject(reason: unknown): void
+    signal?: AbortSignal
+    onAbort?(): void
+}
+
+/**
+ * Sits in front of `ws`'s own buffering, so that the amount of
+ * memory held for slow clients can be bounded, and so that
+ * callers can wait for a message to be flushed.
+ *
+ * `ws` does not report when its buffer drains, but it calls the
+ * callback of each `send()` once the frame has been written, at
+ * which point `bufferedAmount` has gone down. The queue is
+ * re-evaluated from those callbacks.
+ *
+ * Until `open()` is called, which happens once the handshake
+ * completes, messages and a requested close are only held.
+ */
+export class SendQueue {
+    #ws: ws.WebSocket | undefined
+    #highWaterMark = Infinity
+    #policy: NonNullable<SendQueueOptions["policy"]> = "queue"
+    #onDrain = () => {}
+    #onWrite = (_size: number) => {}
+    #open = false
+    #queue: QueuedMessage[] = []
+    #queuedBytes = 0
+    #converting = false
+    #overHighWaterMark = false
+    #closeFrame: [ code?: number, reason?: string ] | undefined
+
+    attach(ws: ws.WebSocket, { highWaterMark = Infinity, policy = "queue" }: SendQueueOptions, callbacks: {
+        /** Called when the buffered amount falls back below the high-water mark */
+        onDrain(): void
+        /** Called with the size of each message handed to `ws` */
+        onWrite(size: number): void
+    }) {
+        this.#ws = ws
+        this.#highWaterMark = highWaterMark
+        this.#policy = policy
+        // The high-water mark is only known now, so messages held
+        // until now may already be above it, and "drain" is owed.
+        this.#overHighWaterMark = this.#queuedBytes > highWaterMark
+        this.#onDrain = callbacks.onDrain
+        this.#onWrite = callbacks.onWrite
+        ws.on("close", () => this.#rejectAll(new DOMException("The WebSocket was closed before the message was sent.", "InvalidStateError")))
+    }
+
+    /**
+     * Starts writing the held messages to the attached socket,
+     * followed by the close, if one was requested.
+     */
+    open() {
+        this.#open = true
+        this.#flush()
+    }
+
+    get bufferedAmount() {
+        return (this.#ws?.bufferedAmount ?? 0) + this.#queuedBytes
+    }
+
+    /**
+     * Whether `close()` was called. Messages sent
+     * afterwards are rejected instead of queued.
+     */
+    get closing() {
+        return this.#closeFrame !== undefined
+    }
+
+    /**
+     * Closes the socket once every message sent before
+     * has been handed to `ws`, so none of them are lost.
+     */
+    close(code?: number, reason?: string) {
+        if (this.#closeFrame) return
+        this.#closeFrame = [ code, reason ]
+        this.#flush()
+    }
+
+    /**
+     * Resolves once the message has been written to the socket.
+     * Rejects right away once the socket is closing or closed.
+     */
+    send(data: SendData, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) return Promise.reject(signal.reason)
+        if (this.#closeFrame) return Promise.reject(new DOMException("The WebSocket is closing.", "InvalidStateError"))
+        // The queue is only flushed while the socket is open, so
+        // messages held once the peer has closed would never leave.
+        if (this.#ws && this.#ws.readyState >= this.#ws.CLOSING) {
+            return Promise.reject(new DOMException("The WebSocket was closed before the message was sent.", "InvalidStateError"))
+        }
+
+        const size = byteLength(data)
+        const overflows = this.bufferedAmount + size > this.#highWaterMark
+
+        if (overflows && this.#policy === "close") {
+            this.#ws?.close(1008, "Send buffer overflow")
+            return Promise.reject(new DOMException("The send buffer overflowed and the WebSocket was closed.", "QuotaExceededError"))
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const message: QueuedMessage = { data, size, resolve, reject, signal }
+            if (signal) {
+                message.onAbort = () => {
+                    if (this.#remove(message)) reject(signal.reason)
+                }
+                signal.addEventListener("abort", message.onAbort, { once: true })
+            }
+            if (overflows) this.#overHighWaterMark = true
+            this.#queue.push(message)
+            this.#queuedBytes += size
+            if (this.#policy === "drop-oldest") this.#dropOldest()
+            this.#flush()
+        })
+    }
+
+    /**
+     * Queues messages ahead of the ones already held, for
+     * those the peer must receive before anything else.
+     */
+    sendFirst(data: SendData[]) {
+        const messages = data.map(data => ({ data, size: byteLength(data), resolve() {}, reject() {} }))
+        this.#queue.unshift(...messages)
+        for (const { size } of messages) this.#queuedBytes += size
+        this.#flush()
+    }
+
+    #flush() {
+        const ws = this.#ws
+        if (!ws || !this.#open) return
+
+        // Once the socket closes, the remaining messages
+        // are rejected by the "close" listener.
+        while (this.#queue.length > 0 && !this.#converting && ws.readyState === ws.OPEN) {
+            const message = this.#queue[0]
+
+            // Blobs are read asynchronously, and messages behind
+            // them wait to keep the order in which they were sent.
+            if (message.data instanceof Blob) {
+                this.#converting = true
+                message.data.arrayBuffer().then(buffer => {
+                    message.data = buffer
+                    this.#converting = false
+                    this.#flush()
+                }, error => {
+                    this.#converting = false
+                    if (this.#remove(message)) message.reject(error)
+                    this.#flush()
+                })
+                return
+            }
+
+            // Hold the message until the socket has drained enough to
+            // take it. An empty socket always takes the next message,
+            // even one that is larger than the high-water mark.
+            const socketBuffered = ws.bufferedAmount
+            if (socketBuffered > 0 && socketBuffered + message.size > this.#highWaterMark) break
+
+            this.#remove(message)
+            this.#onWrite(message.size)
+            ws.send(message.data as Exclude<SendData, Blob>, error => {
+                if (error) message.reject(error)
+                else message.resolve()
+                this.#flush()
+            })
+        }
+
+        if (this.#overHighWaterMark && this.bufferedAmount <= this.#highWaterMark) {
+            this.#overHighWaterMark = false
+            this.#onDrain()
+        }
+
+        if (this.#closeFrame && this.#queue.length === 0 && !this.#converting && ws.readyState === ws.OPEN) {
+            ws.close(...this.#closeFrame)
+        }
+    }
+
+    #dropOldest() {
+        // The newest message is always kept, even if it alone exceeds the limit
+        while (this.#queue.length > 1 && this.bufferedAmount > this.#highWaterMark) {
+            const [ oldest ] = this.#queue
+            this.#remove(oldest)
+            oldest.reject(new DOMException("The message was dropped to stay below the high-water mark.", "AbortError"))
+        }
+    }
+
+    #remove(message: QueuedMessage): boolean {
+        const index = this.#queue.indexOf(message)
+        if (index === -1) return false
+        this.#queue.splice(index, 1)
+        this.#queuedBytes -= message.size
+        if (message.onAbort) message.signal!.removeEventListener("abort", message.onAbort)
+        return true
+    }
+
+    #rejectAll(reason: unknown) {
+        for (const message of [ ...this.#queue ]) {
+            this.#remove(message)
+            message.reject(reason)
+        }
+    }
+}
+
+function byteLength(data: SendData): number {
+    if (typeof data === "string") return Buffer.byteLength(data)
+    if (data instanceof Blob) return data.size
+    return data.byteLength
+}
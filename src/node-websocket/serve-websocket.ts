@@ -1,9 +1,18 @@
-import * as ws from "ws"
+import type * as ws from "ws"
+import type { IncomingMessage } from "node:http"
 import { NodeApp } from "astro/app/node"
 import { WebSocket } from "./websocket.js"
 import { attach } from "./attach.js"
 import { UpgradeResponse, writeResponseToSocket } from "./response.js"
-import { registerConnection } from "./stats.js"
+import { getRemoteAddress, recordUpgradeRejected, registerConnection } from "./stats.js"
+import { createRejectionResponse, getConnectionManager } from "./connection-manager.js"
+import { createProtocolRejectionResponse, selectProtocol } from "./protocol.js"
+import { createOriginRejectionResponse, isOriginAllowed } from "./origin.js"
+import { resolveUpgradeOptions, type UpgradeWebSocketOptions, type WebSocketAdapterOptions } from "./options.js"
+import { createServerPool, type Handshake } from "./upgrade-servers.js"
+import { traceUpgrade } from "./tracing.js"
+import { createShutdownRejectionResponse, isShuttingDown } from "./shutdown.js"
+import { bindSession, startSession } from "./session.js"
 
 export type UpgradeHandler =
     import("node:http").Server["on"] extends
@@ -11,7 +20,7 @@ export type UpgradeHandler =
             ? UpgradeHandler
             : never
 
-export function createWebsocketHandler(app: NodeApp): UpgradeHandler {
+export function createWebsocketHandler(app: NodeApp, adapterOptions?: WebSocketAdapterOptions): UpgradeHandler {
     /**
      * The websocket instance is created as soon as
      * `locals.upgradeWebSocket()` is called. It gets
@@ -19,32 +28,91 @@ export function createWebsocketHandler(app: NodeApp): UpgradeHandler {
      * code returns a response.
      *
      * This map is used to keep track of the
-     * responses' associated websocket instance.
+     * responses' associated websocket instance,
+     * along with the options it was created with.
      */
-    const responseToSocketMap = new WeakMap<Response, WebSocket>
-    const server = new ws.WebSocketServer({ noServer: true })
+    const responseToSocketMap = new WeakMap<Response, [socket: WebSocket, options: UpgradeWebSocketOptions]>
+    /**
+     * The subprotocol and headers of the 101 response
+     * for each request that is being upgraded.
+     */
+    const handshakes = new WeakMap<IncomingMessage, Handshake>
+    const getServer = createServerPool(req => handshakes.get(req))
 
     return async (req, socket, head) => {
-        const response = await app.render(NodeApp.createRequest(req), {
+        const trace = traceUpgrade(req, socket)
+
+        /**
+         * Answers the request without rendering the route.
+         */
+        async function reject(response: Response) {
+            recordUpgradeRejected(response.status)
+            trace.reject(response.status)
+            await writeResponseToSocket(socket, response)
+            socket.destroy()
+        }
+
+        if (isShuttingDown()) return reject(createShutdownRejectionResponse())
+
+        if (!isOriginAllowed(req.headers.origin, req.headers.host, adapterOptions?.allowedOrigins)) {
+            return reject(createOriginRejectionResponse())
+        }
+
+        const connectionManager = getConnectionManager()
+        const remoteAddress = getRemoteAddress(req, adapterOptions?.trustProxy) ?? "unknown"
+        const admission = connectionManager.admitConnection(remoteAddress)
+        if (!admission.allowed) return reject(createRejectionResponse(admission))
+        // Frees the slot held for the upgrade if the socket
+        // closes before the connection is registered
+        socket.once("close", admission.release)
+
+        const upgradeDone = connectionManager.trackUpgrade(socket)
+        const request = NodeApp.createRequest(req)
+        trace.setRoute(app.match(request)?.route)
+        const response = await app.render(request, {
             addCookieHeader: true,
             locals: {
                 isUpgradeRequest: true,
-                upgradeWebSocket() {
+                upgradeWebSocket(options?: UpgradeWebSocketOptions) {
+                    const resolvedOptions = resolveUpgradeOptions(adapterOptions, options)
                     const websocket = new WebSocket
-                    const response = new UpgradeResponse
-                    responseToSocketMap.set(response, websocket)
+                    if (!isOriginAllowed(req.headers.origin, req.headers.host, resolvedOptions.allowedOrigins)) {
+                        return { socket: websocket, response: createOriginRejectionResponse() }
+                    }
+                    const selection = selectProtocol(req.headers["sec-websocket-protocol"], resolvedOptions.protocols)
+                    if (!selection.accepted) {
+                        return { socket: websocket, response: createProtocolRejectionResponse() }
+                    }
+                    handshakes.set(req, { protocol: selection.protocol })
+                    if (resolvedOptions.session) {
+                        startSession(websocket, req.url ?? "/", resolvedOptions.session === true ? {} : resolvedOptions.session)
+                    }
+                    const response = new UpgradeResponse(null, { headers: resolvedOptions.headers })
+                    responseToSocketMap.set(response, [websocket, resolvedOptions])
                     return { socket: websocket, response }
                 }
             }
         })
+        upgradeDone()
+
+        // The upgrade timed out while the route was rendering
+        if (socket.destroyed) return admission.release()
 
         if (response instanceof UpgradeResponse) {
-            const websocket = responseToSocketMap.get(response)!
-            server.handleUpgrade(req, socket, head, (wsSocket: ws.WebSocket) => {
-                registerConnection(websocket, wsSocket)
-                attach(websocket, wsSocket)
+            const [websocket, options] = responseToSocketMap.get(response)!
+            handshakes.get(req)!.headers = response.headers
+            getServer(options).handleUpgrade(req, socket, head, (wsSocket: ws.WebSocket) => {
+                admission.release()
+                const id = registerConnection(websocket, wsSocket, req, remoteAddress)
+                connectionManager.registerConnection(websocket, wsSocket, req, id, remoteAddress)
+                trace.accept(websocket)
+                bindSession(websocket)
+                attach(websocket, wsSocket, options)
             })
         } else {
+            admission.release()
+            recordUpgradeRejected(response.status)
+            trace.reject(response.status)
             await writeResponseToSocket(socket, response)
         }
     }
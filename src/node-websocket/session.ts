@@ -0,0 +1,285 @@
+import { randomBytes } from "node:crypto"
+import type { WebSocket } from "./websocket.js"
+
+type SendData = string | ArrayBufferLike | Blob | ArrayBufferView
+
+export interface SessionOptions {
+    /**
+     * Milliseconds a session is kept after its socket closes,
+     * waiting for the client to reconnect.
+     * @default 30000
+     */
+    gracePeriod?: number
+    /**
+     * Number of sent messages kept for replay. Older
+     * messages are discarded, and a client that missed
+     * them starts a new session instead.
+     * @default 100
+     */
+    maxMessages?: number
+    /**
+     * Bytes of sent messages kept for replay.
+     * @default 1048576 (1 MiB)
+     */
+    maxBytes?: number
+}
+
+/**
+ * The query parameters a reconnecting client uses to resume
+ * its session: the token it was given, and the sequence number
+ * of the last message it received.
+ */
+export const SESSION_TOKEN_PARAM = "ws-session"
+export const SESSION_ACK_PARAM = "ws-ack"
+
+/**
+ * The `type` of the control message sent at the start of each
+ * connection of a session, before any other message.
+ */
+export const SESSION_MESSAGE_TYPE = "zastro:session"
+
+export interface SessionMessage {
+    type: typeof SESSION_MESSAGE_TYPE
+    /** Presented by the client to resume the session */
+    token: string
+    /** Sequence number of the last message the client has, after which numbering continues */
+    seq: number
+    /** Whether the session was resumed, rather than started */
+    resumed: boolean
+}
+
+interface BufferedMessage {
+    seq: number
+    data: SendData
+    size: number
+}
+
+interface PendingBind {
+    session: Session
+    ack: number | undefined
+    /** A session that could not be resumed, ended once the socket takes over */
+    replaces: Session | undefined
+    /** Messages the route sent while the upgrade was being handled */
+    messages: SendData[]
+}
+
+/**
+ * To keep the internals hidden, the function that writes messages
+ * to a socket, ahead of those it holds, without recording them in
+ * its session, is created within WebSocket's static block, and
+ * assigned here.
+ */
+export const sessionSender: { sendFirst: null | ((socket: WebSocket, data: SendData[]) => void) } = { sendFirst: null }
+
+const sessions = new Map<string, Session>()
+const socketSessions = new WeakMap<WebSocket, Session>()
+// Sockets whose upgrade has not completed yet
+const pendingBinds = new WeakMap<WebSocket, PendingBind>()
+
+/**
+ * A logical connection that outlives the sockets of a client
+ * that reconnects, along with the messages sent to it that
+ * the client may not have received.
+ */
+export class Session {
+    /** Identifies the session, without allowing to resume it */
+    readonly id = randomBytes(9).toString("base64url")
+    /** Application state kept across reconnects */
+    readonly data = new Map<string, unknown>()
+    #token = randomBytes(24).toString("base64url")
+    readonly #options: Required<SessionOptions>
+    #socket: WebSocket | undefined
+    #seq = 0
+    #buffer: BufferedMessage[] = []
+    #bufferedBytes = 0
+    #expiry: ReturnType<typeof setTimeout> | undefined
+    #ended = false
+
+    constructor({ gracePeriod = 30_000, maxMessages = 100, maxBytes = 1024 * 1024 }: SessionOptions) {
+        this.#options = { gracePeriod, maxMessages, maxBytes }
+    }
+
+    /** The latest socket of the session */
+    get socket(): WebSocket | undefined {
+        return this.#socket
+    }
+
+    get ended(): boolean {
+        return this.#ended
+    }
+
+    /**
+     * Sends a message to the current socket. While the client
+     * is reconnecting, the message is kept, and sent once the
+     * session is resumed.
+     */
+    send(data: SendData): void {
+        if (this.#ended) return
+        const socket = this.#socket
+        if (socket && socket.readyState <= socket.OPEN) socket.send(data)
+        else this.record(socket, data)
+    }
+
+    /**
+     * Discards the session, and closes its socket.
+     */
+    end(code = 1000, reason?: string): void {
+        if (this.#ended) return
+        this.#ended = true
+        clearTimeout(this.#expiry)
+        sessions.delete(this.#token)
+        this.#buffer = []
+        this.#bufferedBytes = 0
+        const socket = this.#socket
+        if (socket && socket.readyState <= socket.OPEN) socket.close(code, reason)
+    }
+
+    /**
+     * @internal Numbers a message sent through `socket`. Messages
+     * sent through the sockets the session has moved on from are
+     * not part of it anymore.
+     */
+    record(socket: WebSocket | undefined, data: SendData): void {
+        const pending = socket && pendingBinds.get(socket)
+        // Numbered once the socket joins the session
+        if (pending?.session === this) return void pending.messages.push(copy(data))
+        if (this.#ended || socket !== this.#socket) return
+        const message = { seq: ++this.#seq, data: copy(data), size: sizeOf(data) }
+        this.#buffer.push(message)
+        this.#bufferedBytes += message.size
+        const { maxMessages, maxBytes } = this.#options
+        while (this.#buffer.length > maxMessages || (this.#bufferedBytes > maxBytes && this.#buffer.length > 1)) {
+            this.#bufferedBytes -= this.#buffer.shift()!.size
+        }
+    }
+
+    /**
+     * @internal Makes `socket` the session's socket, once its
+     * upgrade has completed, and queues the control message and
+     * the messages after `ack` ahead of those it already holds,
+     * which are numbered after them.
+     */
+    bind(socket: WebSocket, ack: number | undefined, heldMessages: SendData[]): void {
+        const previous = this.#socket
+        this.#socket = socket
+        socketSessions.set(socket, this)
+        sessions.set(this.#token, this)
+        clearTimeout(this.#expiry)
+
+        // The previous connection may be half-open
+        // without the server having noticed yet.
+        if (previous && previous.readyState <= previous.OPEN) previous.close(1001, "Session resumed")
+
+        // A new session also sends what was sent through it before it had a socket
+        const from = ack ?? 0
+        const message: SessionMessage = { type: SESSION_MESSAGE_TYPE, token: this.#token, seq: from, resumed: ack !== undefined }
+        const replayed = this.#buffer.filter(({ seq }) => seq > from).map(({ data }) => data)
+        sessionSender.sendFirst!(socket, [ JSON.stringify(message), ...replayed ])
+        for (const data of heldMessages) this.record(socket, data)
+
+        socket.addEventListener("close", event => {
+            if (this.#socket !== socket) return
+            // A clean close means the client is done with the session
+            if ((event as CloseEvent).code === 1000) this.end()
+            else this.#expire()
+        })
+    }
+
+    /**
+     * @internal Starts the session over, under a new token and
+     * with nothing to replay, for a client that cannot be sent
+     * what it missed. The object, its `id` and its `data` are
+     * kept, since the route may already have used them.
+     */
+    restart(): void {
+        clearTimeout(this.#expiry)
+        sessions.delete(this.#token)
+        this.#token = randomBytes(24).toString("base64url")
+        this.#seq = 0
+        this.#buffer = []
+        this.#bufferedBytes = 0
+        this.#ended = false
+    }
+
+    #expire() {
+        clearTimeout(this.#expiry)
+        this.#expiry = setTimeout(() => this.end(), this.#options.gracePeriod)
+        this.#expiry.unref()
+    }
+
+    /**
+     * @internal Whether a client that received up to `ack`
+     * can be sent everything it missed.
+     */
+    canResumeFrom(ack: number): boolean {
+        if (this.#ended || ack > this.#seq) return false
+        const oldest = this.#buffer[0]?.seq ?? this.#seq + 1
+        return ack >= oldest - 1
+    }
+}
+
+/**
+ * Picks the session of a socket created by `upgradeWebSocket()`:
+ * the one named by the request's query parameters, or a new one.
+ *
+ * The socket only joins it in `bindSession()`, once the upgrade
+ * has completed, so that an upgrade the route rejects leaves the
+ * session and the client's previous socket alone.
+ */
+export function startSession(socket: WebSocket, requestUrl: string, options: SessionOptions): Session {
+    const { searchParams } = new URL(requestUrl, "http://localhost")
+    const token = searchParams.get(SESSION_TOKEN_PARAM)
+    const ack = Number(searchParams.get(SESSION_ACK_PARAM) ?? NaN)
+    const existing = token === null ? undefined : sessions.get(token)
+
+    const resumable = existing !== undefined && Number.isSafeInteger(ack) && ack >= 0 && existing.canResumeFrom(ack)
+    const session = resumable ? existing : new Session(options)
+    pendingBinds.set(socket, {
+        session,
+        ack: resumable ? ack : undefined,
+        replaces: resumable ? undefined : existing,
+        messages: [],
+    })
+    return session
+}
+
+/**
+ * Joins a socket to the session `startSession()` picked for it.
+ * Called once the upgrade has completed, before the socket opens.
+ */
+export function bindSession(socket: WebSocket): void {
+    const pending = pendingBinds.get(socket)
+    if (!pending) return
+    pendingBinds.delete(socket)
+    const { session } = pending
+    let { ack } = pending
+
+    // The messages the client missed may have been discarded while
+    // the route was rendering. The route already has the session,
+    // so it starts over instead of being replaced by a new one.
+    if (ack !== undefined && !session.canResumeFrom(ack)) {
+        session.restart()
+        ack = undefined
+    }
+    // The missed messages are gone, so the
+    // client has to start over with a new session.
+    pending.replaces?.end(1000)
+    session.bind(socket, ack, pending.messages)
+}
+
+export function sessionOf(socket: WebSocket): Session | undefined {
+    return socketSessions.get(socket) ?? pendingBinds.get(socket)?.session
+}
+
+function copy(data: SendData): SendData {
+    // Blobs are immutable, and strings are values
+    if (typeof data === "string" || data instanceof Blob) return data
+    if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice()
+    return data.slice(0)
+}
+
+function sizeOf(data: SendData): number {
+    if (typeof data === "string") return Buffer.byteLength(data)
+    if (data instanceof Blob) return data.size
+    return data.byteLength
+}
@@ -0,0 +1,159 @@
+import type * as http from "node:http"
+import type * as https from "node:https"
+import { constants } from "node:os"
+import type { WebSocket } from "./websocket.js"
+import { WebSocketStats } from "./stats.js"
+import { getConnectionManager } from "./connection-manager.js"
+
+type Server = http.Server | https.Server
+
+export interface GracefulShutdownOptions {
+    /**
+     * Signals that start a graceful shutdown of the standalone
+     * server. `false` leaves signal handling to the application.
+     * @default ["SIGTERM", "SIGINT"]
+     */
+    signals?: NodeJS.Signals[] | false
+    /**
+     * Whether the process exits once the sockets are drained,
+     * with the conventional code of 128 plus the signal number.
+     * `false` leaves the exit to the application, such as to
+     * its own listener for the signal.
+     * @default true
+     */
+    exit?: boolean
+    /**
+     * Milliseconds to wait for the sockets to close, including the
+     * time taken by the `onShutdown()` listeners. Sockets that are
+     * still open afterwards are terminated.
+     * @default 10000
+     */
+    drainTimeout?: number
+    /**
+     * Close code sent to the open sockets.
+     * @default 1001
+     */
+    closeCode?: number
+    /**
+     * Close reason sent to the open sockets.
+     * @default "Server shutting down"
+     */
+    closeReason?: string
+}
+
+export interface ShutdownEvent {
+    /** The signal that started the shutdown, if any */
+    signal?: NodeJS.Signals
+    /** The sockets that are about to be closed */
+    sockets: Set<WebSocket>
+    /** Milliseconds since the epoch at which remaining sockets are terminated */
+    deadline: number
+}
+
+export type ShutdownListener = (event: ShutdownEvent) => void | Promise<void>
+
+const listeners = new Set<ShutdownListener>()
+
+let shutdown: Promise<void> | undefined
+
+/**
+ * Registers a function that runs when a graceful shutdown
+ * starts, before the sockets are closed. Messages it sends,
+ * such as asking clients to reconnect elsewhere, are written
+ * before the close frames. Returns a function that removes it.
+ */
+export function onShutdown(listener: ShutdownListener): () => void {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+}
+
+/**
+ * Whether a graceful shutdown has started. Upgrade requests
+ * are rejected with 503 from then on.
+ */
+export function isShuttingDown(): boolean {
+    return shutdown !== undefined
+}
+
+/**
+ * Stops accepting upgrades, runs the `onShutdown()` listeners,
+ * closes the open sockets, and waits up to `drainTimeout` for
+ * them to close before terminating the rest.
+ *
+ * When `server` is given, it stops accepting connections too.
+ * Calling it again returns the shutdown already in progress.
+ */
+export function gracefulShutdown(options: GracefulShutdownOptions & { server?: Server, signal?: NodeJS.Signals } = {}): Promise<void> {
+    return shutdown ??= drain(options)
+}
+
+async function drain({
+    server,
+    signal,
+    drainTimeout = 10_000,
+    closeCode = 1001,
+    closeReason = "Server shutting down",
+}: GracefulShutdownOptions & { server?: Server, signal?: NodeJS.Signals }): Promise<void> {
+    const deadline = Date.now() + drainTimeout
+    server?.close()
+    server?.closeIdleConnections()
+
+    const sockets = WebSocketStats.getActiveConnections()
+    await withDeadline(deadline, Promise.allSettled([...listeners].map(async listener => {
+        try {
+            await listener({ signal, sockets, deadline })
+        } catch (error) {
+            console.error("[WebSocket Shutdown] A shutdown listener failed:", error)
+        }
+    })))
+
+    const closed = [...sockets].map(socket => new Promise<void>(resolve => {
+        if (socket.readyState === socket.CLOSED) return resolve()
+        socket.addEventListener("close", () => resolve(), { once: true })
+        // Closing through the socket writes the messages
+        // queued by the listeners before the close frame.
+        socket.close(closeCode, closeReason)
+    }))
+    await withDeadline(deadline, Promise.all(closed))
+
+    // Terminates whatever is still open, including sockets
+    // that were upgraded while the listeners ran.
+    await getConnectionManager().shutdown({ timeout: 0, closeCode, closeReason })
+    WebSocketStats.shutdown()
+}
+
+/**
+ * Starts a graceful shutdown of the standalone server when the
+ * process receives one of the signals, then exits with the code
+ * a shell reports for the signal, without raising it again, which
+ * would run the application's own listeners for it a second time.
+ */
+export function handleShutdownSignals(server: Server, options: GracefulShutdownOptions | false = {}): void {
+    if (options === false) return
+    const { signals = ["SIGTERM", "SIGINT"], exit = true } = options
+    if (signals === false) return
+
+    async function onSignal(signal: NodeJS.Signals) {
+        // Without the listener, a second signal ends the process right away
+        for (const signal of signals as NodeJS.Signals[]) process.off(signal, onSignal)
+        await gracefulShutdown({ ...options, server, signal })
+        if (exit) process.exit(128 + constants.signals[signal])
+    }
+    for (const signal of signals) process.on(signal, onSignal)
+}
+
+export function createShutdownRejectionResponse(): Response {
+    return new Response("Server shutting down", {
+        status: 503,
+        statusText: "Service Unavailable",
+        headers: { "Content-Type": "text/plain", "Connection": "close" },
+    })
+}
+
+function withDeadline(deadline: number, promise: Promise<unknown>): Promise<unknown> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    return Promise.race([
+        promise,
+        new Promise<void>(resolve => timer = setTimeout(resolve, Math.max(0, deadline - Date.now()))),
+    ]).finally(() => clearTimeout(timer))
+}
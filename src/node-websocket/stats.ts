@@ -1,45 +1,485 @@
 import type * as ws from "ws"
+import type { IncomingMessage } from "node:http"
 import type { WebSocket } from "./websocket.js"
+import { rooms } from "./rooms.js"
+import type { Broker } from "./broker.js"
+import { renderPrometheus } from "./prometheus.js"
+import {
+  ClusterStatsAggregator,
+  createLocalWorkerStats,
+  summarizeCluster,
+  type ClusterConnectionStats,
+  type ClusterStatsOptions,
+} from "./cluster-stats.js"
+
+export type ConnectionState = "CONNECTING" | "OPEN" | "CLOSING" | "CLOSED"
+
+const STATE_NAMES: readonly ConnectionState[] = ["CONNECTING", "OPEN", "CLOSING", "CLOSED"]
+
+/**
+ * How often connections that have closed without
+ * their "close" event being observed are swept.
+ */
+const CLEANUP_INTERVAL = 30_000
+
+/**
+ * Upper bounds of the buckets of the connection
+ * duration histogram, in seconds.
+ */
+const DURATION_BUCKETS = [1, 5, 15, 60, 300, 900, 3_600, 14_400, 86_400]
+
+interface ConnectionRecord {
+  id: string
+  socket: WebSocket
+  wsSocket: ws.WebSocket
+  connectedAt: number
+  lastActivity: number
+  roundTripTime?: number
+  rateLimited: number
+  remoteAddress?: string
+  userAgent?: string
+}
+
+export interface ConnectionInfo {
+  id: string
+  /** Connection age in milliseconds */
+  age: number
+  /** Time since the last message sent or received, in milliseconds */
+  idleTime: number
+  state: ConnectionState
+  /** Round-trip time of the last answered heartbeat ping, in milliseconds */
+  roundTripTime?: number
+  remoteAddress?: string
+  userAgent?: string
+  /** Rooms the socket has joined */
+  rooms: string[]
+  /** Incoming messages that exceeded the socket's rate limit */
+  rateLimited: number
+}
+
+export interface ConnectionStats {
+  totalConnections: number
+  totalConnectionsEver: number
+  totalConnectionsClosed: number
+  averageAge: number
+  averageIdleTime: number
+  connectionsByState: Record<ConnectionState, number>
+  connections: ConnectionInfo[]
+  /** Number of members of each room */
+  rooms: Record<string, number>
+}
+
+/**
+ * Counters since the process started,
+ * for exporting to a metrics system.
+ */
+export interface WebSocketMetrics {
+  upgradesAccepted: number
+  /** Rejected upgrade requests, by the status code of the response */
+  upgradesRejected: Record<number, number>
+  messagesReceived: number
+  messagesSent: number
+  /** Incoming messages that exceeded their socket's rate limit */
+  messagesRateLimited: number
+  bytesReceived: number
+  bytesSent: number
+  /** Closed connections, by close code */
+  closeCodes: Record<number, number>
+  connectionDuration: {
+    /** Cumulative counts, with `le` in seconds */
+    buckets: { le: number, count: number }[]
+    /** Total duration in seconds */
+    sum: number
+    count: number
+  }
+}
 
-// Basic stats tracking
 class WebSocketStatsManager {
-  private connections = new Map<string, any>()
+  private connections = new Map<string, ConnectionRecord>()
+  private socketToRecord = new WeakMap<WebSocket, ConnectionRecord>()
   private connectionCounter = 0
   private lifetimeConnections = 0
+  private closedConnections = 0
+  private cleanupTimer: ReturnType<typeof setInterval> | undefined
+  private shutDown = false
+  private upgradesAccepted = 0
+  private upgradesRejected = new Map<number, number>()
+  private messagesReceived = 0
+  private messagesSent = 0
+  private messagesRateLimited = 0
+  private bytesReceived = 0
+  private bytesSent = 0
+  private closeCodes = new Map<number, number>()
+  private durationBuckets = DURATION_BUCKETS.map(() => 0)
+  private durationSum = 0
+  private durationCount = 0
+
+  get isShutDown(): boolean {
+    return this.shutDown
+  }
 
-  registerConnection(socket: WebSocket, wsSocket: ws.WebSocket): string {
+  registerConnection(socket: WebSocket, wsSocket: ws.WebSocket, req?: IncomingMessage, remoteAddress = req && getRemoteAddress(req)): string {
     const id = `ws_${++this.connectionCounter}_${Date.now()}`
-    this.connections.set(id, { socket, wsSocket })
+    this.upgradesAccepted++
+
+    if (this.shutDown) {
+      wsSocket.close(1001, "Server shutting down")
+      return id
+    }
+
+    const now = Date.now()
+    const record: ConnectionRecord = {
+      id,
+      socket,
+      wsSocket,
+      connectedAt: now,
+      lastActivity: now,
+      rateLimited: 0,
+      remoteAddress,
+      userAgent: req?.headers["user-agent"],
+    }
+    this.connections.set(id, record)
+    this.socketToRecord.set(socket, record)
     this.lifetimeConnections++
+    this.startCleanupTimer()
+
+    wsSocket.on("message", (data) => {
+      record.lastActivity = Date.now()
+      this.messagesReceived++
+      this.bytesReceived += byteLength(data)
+    })
 
     // Remove on close
-    wsSocket.on("close", () => {
-      this.connections.delete(id)
+    wsSocket.on("close", (code) => {
+      this.closeCodes.set(code, (this.closeCodes.get(code) ?? 0) + 1)
+      this.recordDuration((Date.now() - record.connectedAt) / 1000)
+      this.removeConnection(id)
     })
 
     return id
   }
 
+  /**
+   * Marks outbound traffic on a socket so that it
+   * is reflected in the connection's idle time.
+   */
+  recordActivity(socket: WebSocket): void {
+    const record = this.socketToRecord.get(socket)
+    if (record) record.lastActivity = Date.now()
+  }
+
+  /**
+   * Counts a message handed to the underlying socket,
+   * after it made it through the send queue.
+   */
+  recordMessageSent(socket: WebSocket, size: number): void {
+    this.recordActivity(socket)
+    this.messagesSent++
+    this.bytesSent += size
+  }
+
+  recordRateLimited(socket: WebSocket): void {
+    this.messagesRateLimited++
+    const record = this.socketToRecord.get(socket)
+    if (record) record.rateLimited++
+  }
+
+  recordUpgradeRejected(status: number): void {
+    this.upgradesRejected.set(status, (this.upgradesRejected.get(status) ?? 0) + 1)
+  }
+
+  getMetrics(): WebSocketMetrics {
+    let cumulative = 0
+    return {
+      upgradesAccepted: this.upgradesAccepted,
+      upgradesRejected: Object.fromEntries(this.upgradesRejected),
+      messagesReceived: this.messagesReceived,
+      messagesSent: this.messagesSent,
+      messagesRateLimited: this.messagesRateLimited,
+      bytesReceived: this.bytesReceived,
+      bytesSent: this.bytesSent,
+      closeCodes: Object.fromEntries(this.closeCodes),
+      connectionDuration: {
+        buckets: DURATION_BUCKETS.map((le, i) => ({ le, count: cumulative += this.durationBuckets[i] })),
+        sum: this.durationSum,
+        count: this.durationCount,
+      },
+    }
+  }
+
+  recordRoundTripTime(socket: WebSocket, roundTripTime: number): void {
+    const record = this.socketToRecord.get(socket)
+    if (record) record.roundTripTime = roundTripTime
+  }
+
+  getConnectionId(socket: WebSocket): string | undefined {
+    return this.socketToRecord.get(socket)?.id
+  }
+
   getConnectionCount(): number {
     return this.connections.size
   }
 
-  getConnectionStats(): { totalConnections: number; totalConnectionsEver: number } {
+  getConnectionStats(): ConnectionStats {
+    const now = Date.now()
+    const connectionsByState: Record<ConnectionState, number> = { CONNECTING: 0, OPEN: 0, CLOSING: 0, CLOSED: 0 }
+    const connections: ConnectionInfo[] = []
+    let totalAge = 0
+    let totalIdleTime = 0
+
+    for (const record of this.connections.values()) {
+      const info: ConnectionInfo = {
+        id: record.id,
+        age: now - record.connectedAt,
+        idleTime: now - record.lastActivity,
+        state: STATE_NAMES[record.wsSocket.readyState],
+        roundTripTime: record.roundTripTime,
+        remoteAddress: record.remoteAddress,
+        userAgent: record.userAgent,
+        rooms: [...rooms.roomsOf(record.socket)],
+        rateLimited: record.rateLimited,
+      }
+      connectionsByState[info.state]++
+      totalAge += info.age
+      totalIdleTime += info.idleTime
+      connections.push(info)
+    }
+
+    const count = connections.length
     return {
-      totalConnections: this.connections.size,
-      totalConnectionsEver: this.lifetimeConnections
+      totalConnections: count,
+      totalConnectionsEver: this.lifetimeConnections,
+      totalConnectionsClosed: this.closedConnections,
+      averageAge: count ? totalAge / count : 0,
+      averageIdleTime: count ? totalIdleTime / count : 0,
+      connectionsByState,
+      connections,
+      rooms: rooms.getRoomSizes(),
+    }
+  }
+
+  getActiveConnections(): Set<WebSocket> {
+    const active = new Set<WebSocket>()
+    for (const record of this.connections.values()) {
+      if (record.wsSocket.readyState === record.wsSocket.OPEN) active.add(record.socket)
+    }
+    return active
+  }
+
+  /**
+   * Closes through the sockets given to the routes, so that
+   * the messages they still hold are sent before the close.
+   */
+  closeAllConnections(code = 1000, reason?: string): number {
+    let closed = 0
+    for (const { socket } of this.connections.values()) {
+      if (socket.readyState === socket.CONNECTING || socket.readyState === socket.OPEN) {
+        socket.close(code, reason)
+        closed++
+      }
     }
+    return closed
   }
+
+  /**
+   * Removes connections whose underlying socket has closed,
+   * but whose "close" event has not removed them yet.
+   */
+  cleanupStaleConnections(): number {
+    let cleaned = 0
+    for (const record of this.connections.values()) {
+      if (record.wsSocket.readyState === record.wsSocket.CLOSED) {
+        this.removeConnection(record.id)
+        cleaned++
+      }
+    }
+    return cleaned
+  }
+
+  shutdown(): void {
+    if (this.shutDown) return
+    this.shutDown = true
+    this.closeAllConnections(1001, "Server shutting down")
+    clearInterval(this.cleanupTimer)
+    this.cleanupTimer = undefined
+  }
+
+  /**
+   * Stops the cleanup timer, for a manager that is being
+   * replaced. Its connections are left as they are.
+   */
+  dispose(): void {
+    clearInterval(this.cleanupTimer)
+    this.cleanupTimer = undefined
+  }
+
+  private removeConnection(id: string): void {
+    const record = this.connections.get(id)
+    if (!record) return
+    this.connections.delete(id)
+    this.socketToRecord.delete(record.socket)
+    this.closedConnections++
+  }
+
+  private recordDuration(seconds: number): void {
+    const bucket = DURATION_BUCKETS.findIndex(le => seconds <= le)
+    // Durations above the largest bucket only count towards +Inf
+    if (bucket !== -1) this.durationBuckets[bucket]++
+    this.durationSum += seconds
+    this.durationCount++
+  }
+
+  private startCleanupTimer(): void {
+    if (this.cleanupTimer) return
+    this.cleanupTimer = setInterval(() => this.cleanupStaleConnections(), CLEANUP_INTERVAL)
+    // Stats tracking alone should never keep the process alive
+    this.cleanupTimer.unref?.()
+  }
+}
+
+export function byteLength(data: ws.RawData | Blob): number {
+  if (data instanceof Blob) return data.size
+  if (Array.isArray(data)) return data.reduce((total, fragment) => total + fragment.byteLength, 0)
+  return data.byteLength
+}
+
+/**
+ * Which of the addresses a request went through are reverse
+ * proxies: `true` for one, the number of proxies in front of
+ * the server, or the proxies' addresses.
+ */
+export type TrustProxy = boolean | number | readonly string[]
+
+/**
+ * The address of the client. Any client can send `X-Forwarded-For`,
+ * so it is only read when `trustProxy` says which hops are proxies,
+ * and the client is the right-most hop that is not one of them.
+ */
+export function getRemoteAddress(req: IncomingMessage, trustProxy: TrustProxy = false): string | undefined {
+  const peer = req.socket?.remoteAddress
+  if (trustProxy === false || trustProxy === 0) return peer
+
+  const forwardedFor = [req.headers["x-forwarded-for"] ?? []].flat()
+  const hops = forwardedFor.flatMap(header => header.split(",")).map(hop => hop.trim()).filter(Boolean)
+  if (peer) hops.push(peer)
+
+  const proxies = typeof trustProxy === "object" ? new Set(trustProxy.map(stripMappedPrefix)) : undefined
+  const proxyCount = trustProxy === true ? 1 : Number(trustProxy)
+  for (let i = hops.length - 1; i >= 0; i--) {
+    const isProxy = proxies ? proxies.has(stripMappedPrefix(hops[i])) : hops.length - 1 - i < proxyCount
+    if (!isProxy) return hops[i]
+  }
+  // Every hop is a proxy, so the left-most one is as close to the client as it gets
+  return hops[0]
+}
+
+// Node.js reports IPv4 peers of dual-stack servers as "::ffff:127.0.0.1"
+function stripMappedPrefix(address: string): string {
+  return address.startsWith("::ffff:") && address.includes(".") ? address.slice(7) : address
 }
 
-const statsManager = new WebSocketStatsManager()
+let statsManager = new WebSocketStatsManager()
+
+let clusterStats: ClusterStatsAggregator | undefined
+
+export interface ConnectionStatsOptions {
+  /**
+   * `"process"` reports the connections of the current process.
+   * `"cluster"` combines the reports of every process connected
+   * through the broker passed to `enableClusterStats()`, or only
+   * covers the current process if it was not called.
+   * @default "process"
+   */
+  scope?: "process" | "cluster"
+}
+
+function getConnectionStats(options?: { scope?: "process" }): ConnectionStats
+function getConnectionStats(options: { scope: "cluster" }): ClusterConnectionStats
+function getConnectionStats(options?: ConnectionStatsOptions): ConnectionStats | ClusterConnectionStats
+function getConnectionStats({ scope = "process" }: ConnectionStatsOptions = {}): ConnectionStats | ClusterConnectionStats {
+  if (scope !== "cluster") return statsManager.getConnectionStats()
+  if (clusterStats) return clusterStats.getClusterStats()
+  return summarizeCluster([createLocalWorkerStats(statsManager.getConnectionStats())])
+}
+
+/**
+ * Starts publishing the stats of this process through `broker`,
+ * and collecting those of the other processes connected to it.
+ * Calling it again replaces the broker and options.
+ */
+function enableClusterStats(broker: Broker, options?: ClusterStatsOptions): void {
+  clusterStats?.stop()
+  clusterStats = new ClusterStatsAggregator(broker, () => statsManager.getConnectionStats(), options)
+}
+
+function disableClusterStats(): void {
+  clusterStats?.stop()
+  clusterStats = undefined
+}
 
 export const WebSocketStats = {
   getConnectionCount: () => statsManager.getConnectionCount(),
-  getConnectionStats: () => statsManager.getConnectionStats(),
-  shutdown: () => {}
+  getConnectionStats,
+  getMetrics: () => statsManager.getMetrics(),
+  /**
+   * Renders the connection stats and metrics of the
+   * current process in the Prometheus text format.
+   */
+  toPrometheus: () => renderPrometheus(statsManager.getConnectionStats(), statsManager.getMetrics()),
+  enableClusterStats,
+  disableClusterStats,
+  getActiveConnections: () => statsManager.getActiveConnections(),
+  getConnectionId: (socket: WebSocket) => statsManager.getConnectionId(socket),
+  closeAllConnections: (code?: number, reason?: string) => statsManager.closeAllConnections(code, reason),
+  cleanupStaleConnections: () => statsManager.cleanupStaleConnections(),
+  shutdown: () => {
+    disableClusterStats()
+    statsManager.shutdown()
+  },
+  get isShutDown() {
+    return statsManager.isShutDown
+  },
+}
+
+/**
+ * Discards the stats and metrics of the current process,
+ * as if it had just started. Used by the testing harness
+ * between tests.
+ */
+export function resetStats(): void {
+  disableClusterStats()
+  statsManager.dispose()
+  statsManager = new WebSocketStatsManager()
+}
+
+export function registerConnection(socket: WebSocket, wsSocket: ws.WebSocket, req?: IncomingMessage, remoteAddress?: string): string {
+  return statsManager.registerConnection(socket, wsSocket, req, remoteAddress)
+}
+
+export function recordActivity(socket: WebSocket): void {
+  statsManager.recordActivity(socket)
+}
+
+export function recordMessageSent(socket: WebSocket, size: number): void {
+  statsManager.recordMessageSent(socket, size)
+}
+
+export function recordRateLimited(socket: WebSocket): void {
+  statsManager.recordRateLimited(socket)
+}
+
+export function recordUpgradeRejected(status: number): void {
+  statsManager.recordUpgradeRejected(status)
+}
+
+export function recordRoundTripTime(socket: WebSocket, roundTripTime: number): void {
+  statsManager.recordRoundTripTime(socket, roundTripTime)
 }
 
-export function registerConnection(socket: WebSocket, wsSocket: ws.WebSocket): string {
-  return statsManager.registerConnection(socket, wsSocket)
+export function logConnectionStats(): void {
+  const stats = statsManager.getConnectionStats()
+  const { OPEN, CONNECTING, CLOSING } = stats.connectionsByState
+  console.log(`[WebSocket Stats] Active: ${stats.totalConnections}, Total: ${stats.totalConnectionsEver}, Closed: ${stats.totalConnectionsClosed}`)
+  console.log(`[WebSocket Stats] Avg Age: ${Math.round(stats.averageAge / 1000)}s, Avg Idle: ${Math.round(stats.averageIdleTime / 1000)}s`)
+  console.log(`[WebSocket Stats] By State - Open: ${OPEN}, Connecting: ${CONNECTING}, Closing: ${CLOSING}`)
 }
@@ -0,0 +1,156 @@
+type MessageData = string | ArrayBufferLike | Blob | ArrayBufferView
+
+/**
+ * The parts of the socket that the streams are built on. Only
+ * the wrapper's events are used, so that the streams can be
+ * created in the route, before the socket is attached.
+ */
+export interface StreamSource extends EventTarget {
+    readonly readyState: number
+    sendAsync(data: MessageData): Promise<void>
+    close(code?: number, reason?: string): void
+}
+
+export interface FlowControl {
+    /** Stops reading from the underlying socket. */
+    pause(): void
+    /** Starts reading from the underlying socket again. */
+    resume(): void
+}
+
+/**
+ * Error of the readable and writable streams when the
+ * connection closes uncleanly, following `WebSocketError`
+ * from the WebSocketStream proposal.
+ */
+export class WebSocketError extends DOMException {
+    readonly closeCode: number | null
+    readonly reason: string
+
+    constructor(message: string, { closeCode = null, reason = "" }: { closeCode?: number | null, reason?: string } = {}) {
+        super(message, "WebSocketError")
+        this.closeCode = closeCode
+        this.reason = reason
+    }
+}
+
+/**
+ * Number of messages held by the readable stream
+ * before the underlying socket is paused.
+ */
+const READABLE_HIGH_WATER_MARK = 16
+
+/**
+ * A stream of the data of incoming messages.
+ *
+ * Once the consumer falls `READABLE_HIGH_WATER_MARK` messages
+ * behind, the socket is paused, which stops `ws` from reading
+ * from the TCP connection. The peer then sees its own send
+ * buffer fill up, instead of the server buffering without bound.
+ *
+ * Cancelling the stream closes the socket.
+ */
+export function createReadableStream(socket: StreamSource, flow: FlowControl): ReadableStream<MessageData> {
+    let paused = false
+    // Messages can still arrive between cancelling
+    // the stream and the socket closing.
+    let cancelled = false
+
+    return new ReadableStream<MessageData>({
+        start(controller) {
+            socket.addEventListener("message", function onMessage(event) {
+                if (cancelled) return
+                controller.enqueue((event as MessageEvent).data)
+                if (!paused && controller.desiredSize !== null && controller.desiredSize <= 0) {
+                    paused = true
+                    flow.pause()
+                }
+            })
+            socket.addEventListener("close", function onClose(event) {
+                const { code, reason, wasClean } = event as CloseEvent
+                if (cancelled) return
+                if (wasClean) controller.close()
+                else controller.error(new WebSocketError("The WebSocket closed uncleanly.", { closeCode: code, reason }))
+            }, { once: true })
+        },
+        pull() {
+            if (paused) {
+                paused = false
+                flow.resume()
+            }
+        },
+        cancel(reason) {
+            cancelled = true
+            socket.close(...closeArguments(reason))
+        },
+    }, new CountQueuingStrategy({ highWaterMark: READABLE_HIGH_WATER_MARK }))
+}
+
+/**
+ * A stream that sends each chunk written to it as a message.
+ *
+ * Writes wait until the socket is open, and each one resolves
+ * once the message has been written to the socket, so piping
+ * into it is paced by the connection.
+ *
+ * Closing the stream closes the socket with 1000,
+ * and aborting it closes the socket as well. The
+ * stream errors when the connection closes uncleanly.
+ */
+export function createWritableStream(socket: StreamSource): WritableStream<MessageData> {
+    return new WritableStream<MessageData>({
+        start(controller) {
+            // After a clean close, pipes into the stream finish when
+            // their source closes, and further writes are rejected.
+            socket.addEventListener("close", function onClose(event) {
+                const { code, reason, wasClean } = event as CloseEvent
+                if (!wasClean) controller.error(new WebSocketError("The WebSocket closed uncleanly.", { closeCode: code, reason }))
+            }, { once: true })
+            if (socket.readyState !== 0) return
+            return new Promise<void>(resolve => {
+                socket.addEventListener("open", () => resolve(), { once: true })
+                socket.addEventListener("close", () => resolve(), { once: true })
+            })
+        },
+        write(chunk) {
+            return socket.sendAsync(chunk)
+        },
+        close() {
+            socket.close(1000)
+        },
+        abort(reason) {
+            socket.close(...closeArguments(reason))
+        },
+    })
+}
+
+/**
+ * Iterates over the data of incoming messages through
+ * `readable`. Breaking out of the loop closes the socket.
+ */
+export async function* iterateMessages(readable: ReadableStream<MessageData>): AsyncGenerator<MessageData, void, undefined> {
+    const reader = readable.getReader()
+    let done = false
+    try {
+        while (true) {
+            const result = await reader.read()
+            if (result.done) {
+                done = true
+                return
+            }
+            yield result.value
+        }
+    } finally {
+        if (!done) await reader.cancel().catch(() => {})
+        reader.releaseLock()
+    }
+}
+
+/**
+ * A `WebSocketError` passed to `cancel()` or `abort()`
+ * chooses the code and reason the socket is closed with.
+ */
+function closeArguments(reason: unknown): [ code?: number, reason?: string ] {
+    if (reason instanceof WebSocketError && reason.closeCode !== null) return [ reason.closeCode, reason.reason ]
+    return [ 1000 ]
+}
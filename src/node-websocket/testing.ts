@@ -0,0 +1,299 @@
+import * as ws from "ws"
+import * as http from "node:http"
+import type * as net from "node:net"
+import { Duplex, Readable } from "node:stream"
+import type { APIContext, APIRoute } from "astro"
+import type { NodeApp } from "astro/app/node"
+import type { WebSocket } from "./websocket.js"
+import type { UpgradeWebSocketOptions, WebSocketAdapterOptions } from "./options.js"
+import { createWebsocketHandler } from "./serve-websocket.js"
+import { resetStats } from "./stats.js"
+import { resetConnectionManager } from "./connection-manager.js"
+
+export interface ConnectToRouteOptions {
+    /**
+     * The URL of the upgrade request, including the query.
+     * @default "http://localhost/"
+     */
+    url?: string | URL
+    /** The route's parameters, as `ctx.params` */
+    params?: APIContext["params"]
+    /**
+     * The route's pattern, as `ctx.routePattern`.
+     * @default the pathname of `url`
+     */
+    routePattern?: string
+    /** Headers of the upgrade request, such as `Cookie` or `Origin` */
+    headers?: Record<string, string>
+    /** Subprotocols the client offers */
+    protocols?: string | string[]
+    /** Added to `ctx.locals`, as a middleware would */
+    locals?: Record<string, unknown>
+    /** The adapter's `websocket` options */
+    adapterOptions?: WebSocketAdapterOptions
+    /**
+     * Milliseconds `nextMessage()` and `closed` wait before failing.
+     * @default 2000
+     */
+    timeout?: number
+}
+
+export interface TestCloseEvent {
+    code: number
+    reason: string
+}
+
+/**
+ * Thrown by `connectToRoute()` when the route, or the
+ * adapter, answers the upgrade request without upgrading.
+ */
+export class UpgradeRejectedError extends Error {
+    readonly response: Response
+
+    constructor(response: Response) {
+        super(`The upgrade request was answered with ${response.status} instead of 101.`)
+        this.response = response
+    }
+}
+
+/**
+ * Runs a route that calls `locals.upgradeWebSocket()` without
+ * a server or a network, and connects a client to the socket
+ * it returns. Everything between them is real: the handshake,
+ * the frames, and the adapter's checks and options.
+ *
+ * Resolves once the socket is open, or rejects with an
+ * `UpgradeRejectedError` if the route did not upgrade.
+ *
+ * The context passed to the route has `request`, `url`,
+ * `params`, `locals`, `routePattern` and `clientAddress`.
+ */
+export function connectToRoute(route: APIRoute, options: ConnectToRouteOptions = {}): Promise<TestClient> {
+    const { params = {}, headers, protocols, locals: extraLocals, adapterOptions, timeout = 2000 } = options
+    const url = new URL(options.url ?? "http://localhost/")
+    const routePattern = options.routePattern ?? url.pathname
+    let socket: WebSocket | undefined
+
+    // Stands in for the app, rendering the route with the locals
+    // of the handler, like Astro's API route pipeline would.
+    const app = {
+        match: () => ({ route: routePattern }),
+        async render(request: Request, { locals }: { locals: App.Locals }) {
+            const context = {
+                request,
+                url: new URL(request.url),
+                params,
+                routePattern,
+                clientAddress: "127.0.0.1",
+                locals: {
+                    ...extraLocals,
+                    ...locals,
+                    upgradeWebSocket(options?: UpgradeWebSocketOptions) {
+                        const upgrade = locals.upgradeWebSocket!(options)
+                        socket = upgrade.socket
+                        return upgrade
+                    },
+                },
+            }
+            return route(context as unknown as APIContext)
+        },
+    }
+
+    const server = http.createServer()
+    server.on("upgrade", createWebsocketHandler(app as unknown as NodeApp, adapterOptions))
+    const [clientSide, serverSide] = createDuplexPair()
+    server.emit("connection", serverSide)
+
+    const clientUrl = new URL(url)
+    clientUrl.protocol = url.protocol === "https:" ? "wss:" : "ws:"
+    // ws only reads and writes the socket, which the in-memory stream supports
+    const client = new ws.WebSocket(clientUrl, protocols, { headers, createConnection: () => clientSide as unknown as net.Socket })
+    // Listens for messages before the socket opens, since the
+    // first ones can arrive along with the 101 response.
+    const testClient = new TestClient(client, () => socket!, timeout)
+
+    return new Promise((resolve, reject) => {
+        client.once("open", () => {
+            openClients.add(testClient)
+            client.once("close", () => openClients.delete(testClient))
+            resolve(testClient)
+        })
+        client.once("error", reject)
+        client.once("unexpected-response", (request, response) => {
+            const { statusCode = 500, statusMessage } = response
+            const body = statusCode === 204 || statusCode === 304 ? null : Readable.toWeb(response) as ReadableStream
+            reject(new UpgradeRejectedError(new Response(body, { status: statusCode, statusText: statusMessage, headers: toHeaders(response.headers) })))
+            response.once("end", () => request.destroy())
+        })
+    })
+}
+
+const openClients = new Set<TestClient>()
+
+/**
+ * Drops the connections made by `connectToRoute()` that are
+ * still open, and discards the connection stats and the
+ * connection manager they were registered with, so that the
+ * next test starts from a fresh process state. Meant to be
+ * called after each test, such as in `afterEach()`.
+ */
+export async function resetConnections(): Promise<void> {
+    await Promise.all([...openClients].map(client => client.terminate()))
+    resetStats()
+    resetConnectionManager()
+}
+
+/**
+ * The client side of a connection made by `connectToRoute()`.
+ */
+export class TestClient {
+    readonly #ws: ws.WebSocket
+    readonly #getSocket: () => WebSocket
+    readonly #timeout: number
+    readonly #messages: (string | ArrayBuffer)[] = []
+    readonly #waiting: { resolve(data: string | ArrayBuffer): void, reject(error: Error): void }[] = []
+    readonly #closed: Promise<TestCloseEvent>
+    #closeEvent: TestCloseEvent | undefined
+
+    constructor(client: ws.WebSocket, getSocket: () => WebSocket, timeout: number) {
+        this.#ws = client
+        this.#getSocket = getSocket
+        this.#timeout = timeout
+        client.binaryType = "arraybuffer"
+        client.on("message", (data: ArrayBuffer, isBinary) => {
+            const message = isBinary ? data : Buffer.from(data).toString()
+            const waiting = this.#waiting.shift()
+            if (waiting) waiting.resolve(message)
+            else this.#messages.push(message)
+        })
+        this.#closed = new Promise(resolve => client.once("close", (code, reason) => {
+            this.#closeEvent = { code, reason: reason.toString() }
+            for (const { reject } of this.#waiting.splice(0)) reject(this.#closedError())
+            resolve(this.#closeEvent)
+        }))
+    }
+
+    /** The socket the route got from `upgradeWebSocket()` */
+    get socket(): WebSocket {
+        return this.#getSocket()
+    }
+
+    /** The subprotocol the route selected */
+    get protocol(): string {
+        return this.#ws.protocol
+    }
+
+    get readyState(): number {
+        return this.#ws.readyState
+    }
+
+    /**
+     * The next message from the route, which has already
+     * arrived or arrives within the timeout. Text messages
+     * are strings, and binary messages are ArrayBuffers.
+     */
+    nextMessage(timeout = this.#timeout): Promise<string | ArrayBuffer> {
+        if (this.#messages.length > 0) return Promise.resolve(this.#messages.shift()!)
+        if (this.#closeEvent) return Promise.reject(this.#closedError())
+        return new Promise((resolve, reject) => {
+            const waiting = {
+                resolve(data: string | ArrayBuffer) {
+                    clearTimeout(timer)
+                    resolve(data)
+                },
+                reject(error: Error) {
+                    clearTimeout(timer)
+                    reject(error)
+                },
+            }
+            const timer = setTimeout(() => {
+                this.#waiting.splice(this.#waiting.indexOf(waiting), 1)
+                reject(new Error(`No message was received within ${timeout}ms.`))
+            }, timeout)
+            this.#waiting.push(waiting)
+        })
+    }
+
+    /** The next message from the route, parsed as JSON */
+    async nextJSON<T = unknown>(timeout?: number): Promise<T> {
+        const message = await this.nextMessage(timeout)
+        if (typeof message !== "string") throw new TypeError("Expected a text message, but a binary message was received.")
+        return JSON.parse(message)
+    }
+
+    send(data: string | ArrayBufferLike | ArrayBufferView): void {
+        this.#ws.send(data)
+    }
+
+    /**
+     * Resolves with the code and reason of the close,
+     * from either side, or rejects after the timeout.
+     */
+    get closed(): Promise<TestCloseEvent> {
+        let timer: ReturnType<typeof setTimeout> | undefined
+        return Promise.race([
+            this.#closed,
+            new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`The socket did not close within ${this.#timeout}ms.`)), this.#timeout)
+            }),
+        ]).finally(() => clearTimeout(timer))
+    }
+
+    /**
+     * Starts the closing handshake, and resolves
+     * once the route's socket has closed too.
+     */
+    close(code?: number, reason?: string): Promise<TestCloseEvent> {
+        this.#ws.close(code, reason)
+        return this.closed
+    }
+
+    /**
+     * Drops the connection without a closing handshake,
+     * as when the client's network goes away.
+     */
+    terminate(): Promise<TestCloseEvent> {
+        this.#ws.terminate()
+        return this.closed
+    }
+
+    #closedError() {
+        return new Error(`The socket closed with ${this.#closeEvent!.code} before a message was received.`)
+    }
+}
+
+/**
+ * Two connected streams, where what is written to
+ * one is read from the other, standing in for a TCP
+ * connection between the client and the server.
+ */
+function createDuplexPair(): [Duplex, Duplex] {
+    const sides: Duplex[] = []
+    for (const side of [0, 1]) {
+        const peer = () => sides[1 - side]
+        sides.push(new Duplex({
+            read() {},
+            write(chunk, _encoding, callback) {
+                peer().push(chunk)
+                callback()
+            },
+            final(callback) {
+                peer().push(null)
+                callback()
+            },
+            destroy(error, callback) {
+                peer().destroy()
+                callback(error)
+            },
+        }))
+    }
+    return [sides[0], sides[1]]
+}
+
+function toHeaders(incoming: http.IncomingHttpHeaders): Headers {
+    const headers = new Headers()
+    for (const [name, value] of Object.entries(incoming)) {
+        for (const item of [value ?? []].flat()) headers.append(name, item)
+    }
+    return headers
+}
@@ -0,0 +1,400 @@
+import type * as ws from "ws"
+import type { IncomingMessage } from "node:http"
+import type { Duplex } from "node:stream"
+import { randomBytes } from "node:crypto"
+import type { WebSocket } from "./websocket.js"
+import { byteLength } from "./stats.js"
+
+export type AttributeValue = string | number | boolean
+
+export type Attributes = Record<string, AttributeValue | undefined>
+
+/**
+ * Identifies a span within a trace, as carried by the
+ * W3C `traceparent` and `tracestate` headers.
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string
+  /** 16 lowercase hex characters */
+  spanId: string
+  traceFlags: number
+  traceState?: string
+  /** Whether the context was received from another service */
+  isRemote?: boolean
+}
+
+/** Same values as OpenTelemetry's `SpanKind` */
+export const SpanKind = {
+  INTERNAL: 0,
+  SERVER: 1,
+  CLIENT: 2,
+  PRODUCER: 3,
+  CONSUMER: 4,
+} as const
+
+export type SpanKind = typeof SpanKind[keyof typeof SpanKind]
+
+/** Same values as OpenTelemetry's `SpanStatusCode` */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const
+
+export type SpanStatusCode = typeof SpanStatusCode[keyof typeof SpanStatusCode]
+
+export interface SpanStatus {
+  code: SpanStatusCode
+  message?: string
+}
+
+/**
+ * The subset of OpenTelemetry's `Span` used by the adapter.
+ * Spans created by `@opentelemetry/api` satisfy it as they are.
+ */
+export interface Span {
+  spanContext(): SpanContext
+  setAttribute(key: string, value: AttributeValue): void
+  addEvent(name: string, attributes?: Attributes): void
+  setStatus(status: SpanStatus): void
+  end(): void
+}
+
+export interface SpanOptions {
+  kind?: SpanKind
+  attributes?: Attributes
+  /**
+   * The span to parent the new span to. Without it,
+   * the new span starts a new trace.
+   */
+  parent?: SpanContext
+}
+
+/**
+ * Creates the spans recorded by the adapter.
+ *
+ * This is intentionally smaller than OpenTelemetry's `Tracer`,
+ * so that the adapter does not depend on `@opentelemetry/api`.
+ * See the README for an adapter to an OpenTelemetry tracer.
+ */
+export interface Tracer {
+  startSpan(name: string, options: SpanOptions): Span
+}
+
+export interface TracingOptions {
+  /**
+   * How inbound messages are recorded:
+   * - `"events"` adds an event to the connection's span for each message.
+   * - `"spans"` starts a child span of the connection's span for each
+   *   message, covering the synchronous part of the message listeners.
+   * - `false` does not record messages.
+   * @default "events"
+   */
+  messages?: "events" | "spans" | false
+}
+
+/**
+ * Records the upgrade of a request, from the moment it
+ * is received until the handshake completes or fails.
+ */
+export interface UpgradeTrace {
+  /** The route pattern that handled the request */
+  setRoute(route: string | undefined): void
+  /** The handshake completed, and the connection is handed to `socket` */
+  accept(socket: WebSocket): void
+  /** The request was answered with a response other than 101 */
+  reject(status: number): void
+}
+
+/**
+ * Records the messages of an accepted connection.
+ */
+export interface ConnectionTrace {
+  /** Records a message, and calls `dispatch` to hand it to the listeners */
+  message(data: ws.RawData | Blob, isBinary: boolean, dispatch: () => void): void
+}
+
+const noopSpanContext: SpanContext = {
+  traceId: "00000000000000000000000000000000",
+  spanId: "0000000000000000",
+  traceFlags: 0,
+}
+
+const noopSpan: Span = {
+  spanContext: () => noopSpanContext,
+  setAttribute() {},
+  addEvent() {},
+  setStatus() {},
+  end() {},
+}
+
+const noopTracer: Tracer = {
+  startSpan: () => noopSpan,
+}
+
+const noopUpgradeTrace: UpgradeTrace = {
+  setRoute() {},
+  accept() {},
+  reject() {},
+}
+
+interface TracingState {
+  tracer: Tracer
+  options: Required<TracingOptions>
+  /**
+   * The upgrade span of each accepted socket, until the
+   * socket is attached and its connection span starts.
+   */
+  upgrades: WeakMap<WebSocket, SpanContext>
+}
+
+/**
+ * The tracer is configured by the application, while the dev
+ * server loads this module a second time for the upgrade
+ * handling. The state is kept on globalThis, so that both
+ * copies of the module use the same tracer.
+ */
+const state: TracingState =
+  // @ts-expect-error
+  globalThis.__websocketTracing ??= {
+    tracer: noopTracer,
+    options: { messages: "events" },
+    upgrades: new WeakMap,
+  }
+
+/**
+ * Sets the tracer that records the spans of upgrades and
+ * connections. Connections that are already open keep
+ * recording with the previous tracer.
+ *
+ * Pass `undefined` to stop tracing.
+ */
+export function setTracer(tracer: Tracer | undefined, options: TracingOptions = {}): void {
+  state.tracer = tracer ?? noopTracer
+  state.options = { messages: options.messages ?? "events" }
+}
+
+export function getTracer(): Tracer {
+  return state.tracer
+}
+
+/**
+ * Starts the span of an upgrade request. Its parent is taken
+ * from the request's `traceparent` header, if it has a valid one.
+ *
+ * The span ends with the first call to `accept()` or `reject()`,
+ * or when the socket closes before either is called.
+ */
+export function traceUpgrade(req: IncomingMessage, socket: Duplex): UpgradeTrace {
+  const { tracer } = state
+  if (tracer === noopTracer) return noopUpgradeTrace
+
+  const span = tracer.startSpan("websocket.upgrade", {
+    kind: SpanKind.SERVER,
+    parent: parseTraceparent(req.headers.traceparent, req.headers.tracestate),
+    attributes: {
+      "http.request.method": req.method,
+      "url.path": req.url?.split("?")[0],
+      "user_agent.original": req.headers["user-agent"],
+    },
+  })
+
+  let ended = false
+  function end(status: number | undefined) {
+    if (ended) return
+    ended = true
+    socket.off("close", onClose)
+    if (status !== undefined) span.setAttribute("http.response.status_code", status)
+    span.setAttribute("websocket.upgrade.outcome", status === 101 ? "accepted" : "rejected")
+    if (status === undefined) {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: "The connection closed before the upgrade completed" })
+    } else if (status >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR })
+    }
+    span.end()
+  }
+  function onClose() {
+    end(undefined)
+  }
+  socket.once("close", onClose)
+
+  return {
+    setRoute(route) {
+      if (route) span.setAttribute("http.route", route)
+    },
+    accept(websocket) {
+      state.upgrades.set(websocket, span.spanContext())
+      end(101)
+    },
+    reject(status) {
+      end(status)
+    },
+  }
+}
+
+/**
+ * Starts the span of a connection, as a child of its upgrade
+ * span. It ends when the connection closes. Returns undefined
+ * when the upgrade was not traced.
+ */
+export function traceConnection(socket: WebSocket, wsSocket: ws.WebSocket): ConnectionTrace | undefined {
+  const parent = state.upgrades.get(socket)
+  if (!parent) return
+  state.upgrades.delete(socket)
+
+  const { tracer, options: { messages } } = state
+  const span = tracer.startSpan("websocket.connection", {
+    kind: SpanKind.SERVER,
+    parent,
+    attributes: {
+      "websocket.protocol": wsSocket.protocol || undefined,
+    },
+  })
+
+  wsSocket.on("close", (code, reason) => {
+    span.setAttribute("websocket.close.code", code)
+    if (reason.length > 0) span.setAttribute("websocket.close.reason", reason.toString())
+    // Codes from 3000 are defined by libraries and applications,
+    // which use them for expected outcomes as often as for errors.
+    if (code < 3000 && code !== 1000 && code !== 1001 && code !== 1005) {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: `Closed with code ${code}` })
+    }
+    span.end()
+  })
+
+  return {
+    message(data, isBinary, dispatch) {
+      if (messages === false) return dispatch()
+      const attributes = {
+        "websocket.message.type": isBinary ? "binary" : "text",
+        "websocket.message.size": byteLength(data),
+      }
+      if (messages === "events") {
+        span.addEvent("websocket.message", attributes)
+        return dispatch()
+      }
+      const messageSpan = tracer.startSpan("websocket.message", {
+        kind: SpanKind.CONSUMER,
+        parent: span.spanContext(),
+        attributes,
+      })
+      try {
+        dispatch()
+      } catch (error) {
+        messageSpan.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) })
+        throw error
+      } finally {
+        messageSpan.end()
+      }
+    },
+  }
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/
+
+/**
+ * Parses a W3C `traceparent` header. Returns undefined if the
+ * header is missing, repeated, or not valid.
+ * https://www.w3.org/TR/trace-context/#traceparent-header
+ */
+export function parseTraceparent(traceparent: string | string[] | undefined, tracestate?: string | string[]): SpanContext | undefined {
+  if (typeof traceparent !== "string") return
+  const match = TRACEPARENT.exec(traceparent.trim())
+  if (!match) return
+  const [, version, traceId, spanId, flags, rest] = match
+  // Version 00 has no further fields, later versions may add some
+  if (version === "ff" || (version === "00" && rest !== undefined)) return
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+    traceState: Array.isArray(tracestate) ? tracestate.join(",") : tracestate,
+    isRemote: true,
+  }
+}
+
+export function formatTraceparent({ traceId, spanId, traceFlags }: SpanContext): string {
+  return `00-${traceId}-${spanId}-${traceFlags.toString(16).padStart(2, "0")}`
+}
+
+export interface RecordedEvent {
+  name: string
+  attributes: Attributes
+  time: number
+}
+
+export interface RecordedSpan {
+  name: string
+  kind: SpanKind
+  context: SpanContext
+  parent?: SpanContext
+  attributes: Attributes
+  events: RecordedEvent[]
+  status: SpanStatus
+  /** Milliseconds since the epoch */
+  startTime: number
+  /** Undefined while the span has not ended */
+  endTime?: number
+}
+
+export interface MemoryTracer extends Tracer {
+  /** Every span started by the tracer, in the order they started */
+  spans: RecordedSpan[]
+  /** The spans that have ended */
+  finishedSpans(): RecordedSpan[]
+  reset(): void
+}
+
+/**
+ * A tracer that keeps the spans in memory.
+ *
+ * Useful in tests, to check what the adapter records
+ * without setting up an OpenTelemetry SDK.
+ */
+export function createMemoryTracer(): MemoryTracer {
+  const tracer: MemoryTracer = {
+    spans: [],
+    startSpan(name, { kind = SpanKind.INTERNAL, attributes = {}, parent } = {}) {
+      const recorded: RecordedSpan = {
+        name,
+        kind,
+        context: {
+          traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+          spanId: randomBytes(8).toString("hex"),
+          traceFlags: parent?.traceFlags ?? 1,
+          traceState: parent?.traceState,
+        },
+        parent,
+        attributes: { ...attributes },
+        events: [],
+        status: { code: SpanStatusCode.UNSET },
+        startTime: Date.now(),
+      }
+      tracer.spans.push(recorded)
+      return {
+        spanContext: () => recorded.context,
+        setAttribute(key, value) {
+          if (recorded.endTime === undefined) recorded.attributes[key] = value
+        },
+        addEvent(name, attributes = {}) {
+          if (recorded.endTime === undefined) recorded.events.push({ name, attributes, time: Date.now() })
+        },
+        setStatus(status) {
+          if (recorded.endTime === undefined) recorded.status = status
+        },
+        end() {
+          recorded.endTime ??= Date.now()
+        },
+      }
+    },
+    finishedSpans() {
+      return tracer.spans.filter(span => span.endTime !== undefined)
+    },
+    reset() {
+      tracer.spans = []
+    },
+  }
+  return tracer
+}
@@ -0,0 +1,105 @@
+import * as ws from "ws"
+import type { IncomingMessage } from "node:http"
+import type { UpgradeWebSocketOptions } from "./options.js"
+
+/**
+ * What `upgradeWebSocket()` and the route's response
+ * decided about the 101 response to a request.
+ */
+export interface Handshake {
+    /** The negotiated subprotocol */
+    protocol?: string
+    /** Headers set by the route, such as `Set-Cookie` */
+    headers?: Headers
+}
+
+export type ServerPool = (options: UpgradeWebSocketOptions) => ws.WebSocketServer
+
+/**
+ * Headers that `ws` writes itself as part of the handshake,
+ * or that have no meaning on a 101 response.
+ */
+const RESERVED_HEADERS = new Set([
+    "connection",
+    "content-length",
+    "content-type",
+    "sec-websocket-accept",
+    "sec-websocket-extensions",
+    "sec-websocket-protocol",
+    "transfer-encoding",
+    "upgrade",
+])
+
+/**
+ * Servers kept by each pool. Routes are expected to pass the same
+ * options on every request, so this is only reached by routes that
+ * compute them per request, whose servers are then recreated.
+ */
+const MAX_POOLED_SERVERS = 32
+
+/**
+ * `ws` only reads `maxPayload` and `perMessageDeflate` from the
+ * options of the server, not from the call to `handleUpgrade()`.
+ *
+ * To support per-route policies, a server is created lazily for
+ * each distinct combination of those options, and reused for
+ * every upgrade that asks for the same one. The least recently
+ * used server is dropped when the pool is full. The connections
+ * it upgraded keep working, since they do not depend on it.
+ */
+export function createServerPool(getHandshake: (req: IncomingMessage) => Handshake | undefined): ServerPool {
+    const servers = new Map<string, ws.WebSocketServer>()
+
+    return function getServer({ maxPayload, perMessageDeflate }) {
+        const key = JSON.stringify([ maxPayload ?? null, normalize(perMessageDeflate) ?? null ])
+        let server = servers.get(key)
+        if (server) {
+            // Map iteration follows insertion, so this keeps the order by use
+            servers.delete(key)
+            servers.set(key, server)
+            return server
+        }
+
+        const serverOptions: ws.ServerOptions = {
+            noServer: true,
+            handleProtocols: (offered, req) => getHandshake(req)?.protocol ?? offered.values().next().value ?? false,
+        }
+        // `ws` spreads the options over its defaults, so an
+        // explicit `undefined` would replace the default.
+        if (maxPayload !== undefined) serverOptions.maxPayload = maxPayload
+        if (perMessageDeflate !== undefined) serverOptions.perMessageDeflate = perMessageDeflate
+
+        server = new ws.WebSocketServer(serverOptions)
+        server.on("headers", function addRouteHeaders(lines, req) {
+            const headers = getHandshake(req)?.headers
+            if (headers) lines.push(...toHeaderLines(headers))
+        })
+        if (servers.size >= MAX_POOLED_SERVERS) servers.delete(servers.keys().next().value!)
+        servers.set(key, server)
+        return server
+    }
+}
+
+/**
+ * Sorts the keys of the options, and leaves out the undefined
+ * ones, so that equivalent options map to the same server.
+ */
+function normalize(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(normalize)
+    if (typeof value !== "object" || value === null) return value
+    const entries = Object.entries(value).filter(([ , item ]) => item !== undefined)
+    return Object.fromEntries(entries.sort(([ a ], [ b ]) => a < b ? -1 : 1).map(([ key, item ]) => [ key, normalize(item) ]))
+}
+
+function toHeaderLines(headers: Headers): string[] {
+    const lines: string[] = []
+    /**
+     * Reconstructing the headers validates them, for the
+     * same reasons as in `writeResponseToSocket()`.
+     */
+    new Headers(headers).forEach((value, name) => {
+        if (RESERVED_HEADERS.has(name)) return
+        lines.push(`${name}: ${value}`)
+    })
+    return lines
+}
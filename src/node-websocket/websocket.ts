@@ -1,11 +1,26 @@
 import type * as ws from "ws"
 import { attacher } from "./attach.js"
+import { recordActivity, recordMessageSent, recordRateLimited, recordRoundTripTime } from "./stats.js"
+import { startHeartbeat } from "./heartbeat.js"
+import { startRateLimit } from "./rate-limit.js"
+import { SendQueue } from "./send-queue.js"
+import { createReadableStream, createWritableStream, iterateMessages, type FlowControl } from "./streams.js"
+import { rooms } from "./rooms.js"
+import { traceConnection } from "./tracing.js"
+import { sessionOf, sessionSender, type Session } from "./session.js"
+import type { UpgradeWebSocketOptions } from "./options.js"
 
 type WebSocketInterface = globalThis.WebSocket
 
 export class WebSocket extends EventTarget implements WebSocketInterface {
     // Use private field like the original patch
     #ws: ws.WebSocket | undefined
+    // Holds messages and a requested close until the socket is attached
+    #sendQueue = new SendQueue()
+    #readable: ReadableStream | undefined
+    #writable: WritableStream | undefined
+    // Reading resumes once nothing needs the socket paused
+    #pausedBy = new Set<"readable" | "rateLimit">()
 
     static readonly CONNECTING = 0 as const
     static readonly OPEN       = 1 as const
@@ -23,11 +38,14 @@ export class WebSocket extends EventTarget implements WebSocketInterface {
     declare readonly CLOSED    : 3
 
     get readyState() {
-        return this.#ws?.readyState ?? this.CONNECTING
+        const readyState = this.#ws?.readyState ?? this.CONNECTING
+        // `ws` only starts closing once the queued messages are written
+        if (readyState === this.OPEN && this.#sendQueue.closing) return this.CLOSING
+        return readyState
     }
 
     get bufferedAmount() {
-        return this.#ws?.bufferedAmount ?? 0
+        return this.#sendQueue.bufferedAmount
     }
 
     // networking event handlers
@@ -43,9 +61,14 @@ export class WebSocket extends EventTarget implements WebSocketInterface {
         return this.#ws?.protocol ?? ""
     }
 
-    close() {
-        if (this.#ws) this.#ws.close()
-        else this.addEventListener("open", () => this.close(), { once: true })
+    /**
+     * Closes the connection once the messages sent before
+     * have been written. Before the socket is open, the
+     * close is held until it opens, like the messages.
+     */
+    close(code?: number, reason?: string) {
+        validateCloseArguments(code, reason)
+        this.#sendQueue.close(code, reason)
     }
 
     // messaging
@@ -68,9 +91,94 @@ export class WebSocket extends EventTarget implements WebSocketInterface {
         }
     }
 
+    /**
+     * Messages sent before the socket is open are held,
+     * and sent in order once it opens. Messages sent after
+     * `close()` was called are discarded, as in browsers.
+     */
     send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
-        if (data instanceof Blob) data.arrayBuffer().then(buffer => this.#ws!.send(buffer))
-        else this.#ws!.send(data)
+        recordActivity(this)
+        sessionOf(this)?.record(this, data)
+        // Failures are reported through the "error" and "close"
+        // events, as they are for the standard `send()`.
+        this.#sendQueue.send(data).catch(() => {})
+    }
+
+    /**
+     * Like `send()`, but resolves once the message has been
+     * written to the socket, and rejects if it was dropped,
+     * aborted through `signal`, or the socket closed first.
+     *
+     * Awaiting it before sending the next message keeps the
+     * memory held for a slow client bounded.
+     */
+    sendAsync(data: string | ArrayBufferLike | Blob | ArrayBufferView, { signal }: { signal?: AbortSignal } = {}): Promise<void> {
+        recordActivity(this)
+        sessionOf(this)?.record(this, data)
+        return this.#sendQueue.send(data, signal)
+    }
+
+    // rooms
+
+    /**
+     * Adds the socket to a room, so that it receives the messages
+     * published to it through `rooms.publish()`. The socket leaves
+     * all of its rooms when it closes.
+     */
+    join(room: string) {
+        rooms.join(this, room)
+    }
+
+    leave(room: string) {
+        rooms.leave(this, room)
+    }
+
+    /** The rooms the socket is a member of */
+    get rooms(): Set<string> {
+        return rooms.roomsOf(this)
+    }
+
+    /**
+     * The session the socket belongs to, when the route
+     * passed the `session` option to `upgradeWebSocket()`.
+     */
+    get session(): Session | undefined {
+        return sessionOf(this)
+    }
+
+    // streams, following the WebSocketStream proposal
+
+    /**
+     * The data of incoming messages. Reading slower than the
+     * peer sends pauses the socket. Only messages received
+     * after the first access are enqueued.
+     */
+    get readable(): ReadableStream<string | Blob | ArrayBuffer | Buffer> {
+        return this.#readable ??= createReadableStream(this, this.#flowControl("readable")) as ReadableStream<any>
+    }
+
+    /**
+     * Sends each chunk written to it, once the socket is open.
+     */
+    get writable(): WritableStream<string | ArrayBufferLike | Blob | ArrayBufferView> {
+        return this.#writable ??= createWritableStream(this)
+    }
+
+    [Symbol.asyncIterator]() {
+        return iterateMessages(this.readable)
+    }
+
+    #flowControl(reason: "readable" | "rateLimit"): FlowControl {
+        return {
+            pause: () => {
+                this.#pausedBy.add(reason)
+                this.#ws?.pause()
+            },
+            resume: () => {
+                this.#pausedBy.delete(reason)
+                if (this.#pausedBy.size === 0) this.#ws?.resume()
+            },
+        }
     }
 
     static {
@@ -86,20 +194,38 @@ export class WebSocket extends EventTarget implements WebSocketInterface {
         Object.freeze(this.prototype)
         Object.freeze(this)
 
+        // Writes the session's control message and the replayed
+        // messages, which must not be numbered a second time, ahead
+        // of the messages the route sent while it was rendering
+        sessionSender.sendFirst = (socket, data) => {
+            socket.#sendQueue.sendFirst(data)
+        }
+
         // CRITICAL: Set the attacher from attach.ts so that serve-websocket.ts
         // can use it to connect the real ws.WebSocket to this wrapper
-        attacher.attach = (standard, ws) => {
+        attacher.attach = (standard, ws, options = {}) => {
             if (standard.#ws) {
                 throw new Error("WebSocket already attached")
             }
             standard.#ws = ws
-            init(standard, ws)
+            standard.#sendQueue.attach(ws, options.sendQueue ?? {}, {
+                onDrain() {
+                    standard.dispatchEvent(new Event("drain"))
+                },
+                onWrite(size) {
+                    recordMessageSent(standard, size)
+                },
+            })
+            init(standard, ws, options, standard.#flowControl("rateLimit"))
+            // Messages sent while connecting, including by
+            // "open" listeners, are written in order now.
+            standard.#sendQueue.open()
             return standard
         }
     }
 }
 
-function init(standard: WebSocket, ws: ws.WebSocket) {
+function init(standard: WebSocket, ws: ws.WebSocket, options: UpgradeWebSocketOptions, flow: FlowControl) {
 
     // set the binary type to `"blob"` to align with the browser default
     // @ts-expect-error `"blob"` is supported by `ws`
@@ -120,11 +246,41 @@ function init(standard: WebSocket, ws: ws.WebSocket) {
         standard.dispatchEvent(event)
     })
 
+    const trace = traceConnection(standard, ws)
+    const limit = options.rateLimit && startRateLimit(ws, options.rateLimit, {
+        onLimit() {
+            recordRateLimited(standard)
+            standard.dispatchEvent(new Event("ratelimit"))
+        },
+        ...flow,
+    })
+
     ws.on("message", function onMessage(data, isBinary) {
         const event = new MessageEvent("message", { data: isBinary ? data : data.toString(), })
-        standard.onmessage?.(event)
-        standard.dispatchEvent(event)
+        if (limit) limit(traced)
+        else traced()
+        function traced() {
+            if (trace) trace.message(data, isBinary, dispatch)
+            else dispatch()
+        }
+        function dispatch() {
+            standard.onmessage?.(event)
+            standard.dispatchEvent(event)
+        }
     })
+    let heartbeatTimedOut = false
+    if (options.heartbeat) {
+        startHeartbeat(ws, options.heartbeat, {
+            onRoundTrip(roundTripTime) {
+                recordRoundTripTime(standard, roundTripTime)
+            },
+            onTimeout() {
+                heartbeatTimedOut = true
+                ws.terminate()
+            },
+        })
+    }
+
     ws.on("error", function onError(error) {
         const event = new ErrorEvent(error, error.message)
         standard.onerror?.(event)
@@ -139,12 +295,41 @@ function init(standard: WebSocket, ws: ws.WebSocket) {
          * starting with Node.js 23. Use it if available.
          * https://nodejs.org/api/globals.html#:~:text=The%20CloseEvent%20class
          */
-        const event = new (globalThis.CloseEvent ?? CloseEvent)("close", ev)
+        const eventInit: CloseEventInit = heartbeatTimedOut
+            // The peer never received a close frame, so 1006 is the
+            // accurate code. The reason tells the route why it happened.
+            ? { code: 1006, reason: "Heartbeat timeout", wasClean: false }
+            : ev
+        const event = new (globalThis.CloseEvent ?? CloseEvent)("close", eventInit)
         standard.onclose?.(event)
         standard.dispatchEvent(event)
     })
 }
 
+/**
+ * Validates the arguments of `close()` up front, with the errors
+ * browsers throw, so that a close requested before the socket
+ * is open fails immediately instead of once it opens.
+ *
+ * Unlike in browsers, the codes reserved for servers, like
+ * 1001 and 1011, are allowed.
+ */
+function validateCloseArguments(code: number | undefined, reason: string | undefined) {
+    if (code !== undefined && !isValidCloseCode(code)) {
+        throw new DOMException(`The close code must be 1000-1003, 1007-1014 or 3000-4999, but ${code} was given.`, "InvalidAccessError")
+    }
+    if (reason !== undefined && Buffer.byteLength(reason) > 123) {
+        throw new DOMException("The close reason must not be longer than 123 bytes.", "SyntaxError")
+    }
+}
+
+function isValidCloseCode(code: number) {
+    return Number.isInteger(code) && (
+        (code >= 1000 && code <= 1014 && code !== 1004 && code !== 1005 && code !== 1006)
+        || (code >= 3000 && code <= 4999)
+    )
+}
+
 // `ErrorEvent` does not exist in browsers. The "error"
 // event is an instance of `Error`, but on the server,
 // there is more information available about the exact
@@ -178,7 +363,7 @@ declare global {
     namespace App {
         interface Locals {
             isUpgradeRequest?: boolean
-            upgradeWebSocket?: () => { socket: WebSocket, response: import("./response.js").UpgradeResponse }
+            upgradeWebSocket?: (options?: UpgradeWebSocketOptions) => { socket: WebSocket, response: import("./response.js").UpgradeResponse }
         }
     }
 }
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+
+/**
+ * Connection admission test
+ * Runs routes through the in-memory testing harness with the connection
+ * manager's limits set, and checks which upgrades are answered with 503
+ * and 429. Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections, UpgradeRejectedError } from '../src/node-websocket/testing.ts'
+import { getConnectionManager } from '../src/node-websocket/connection-manager.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+const upgrade = ({ locals }) => locals.upgradeWebSocket().response
+
+/**
+ * Resolves with 101 when the upgrade succeeds,
+ * or with the status of the rejection.
+ */
+async function statusOf(route, options) {
+  try {
+    await connectToRoute(route, options)
+    return 101
+  } catch (err) {
+    if (err instanceof UpgradeRejectedError) return err.response.status
+    throw err
+  }
+}
+
+async function testMaxConnections() {
+  getConnectionManager({ maxConnections: 1 })
+  const statuses = [await statusOf(upgrade), await statusOf(upgrade)]
+  if (statuses.join() === '101,503') pass('upgrades over maxConnections are answered with 503')
+  else fail(`maxConnections answered ${statuses}`)
+}
+
+async function testConcurrentUpgrades() {
+  getConnectionManager({ maxConnections: 2 })
+  // The route is still rendering when the other upgrades arrive
+  const slowUpgrade = async ({ locals }) => {
+    await new Promise(resolve => setTimeout(resolve, 50))
+    return locals.upgradeWebSocket().response
+  }
+  const statuses = await Promise.all(Array.from({ length: 5 }, () => statusOf(slowUpgrade)))
+  const accepted = statuses.filter(status => status === 101).length
+  if (accepted === 2) pass('concurrent upgrades cannot exceed maxConnections')
+  else fail(`${accepted} of 5 concurrent upgrades were accepted with maxConnections 2`)
+}
+
+async function testSlotReleasedOnRejection() {
+  getConnectionManager({ maxConnections: 1 })
+  const forbidden = () => new Response(null, { status: 403 })
+  const statuses = [await statusOf(forbidden), await statusOf(upgrade)]
+  if (statuses.join() === '403,101') pass('an upgrade the route rejects frees its slot')
+  else fail(`a rejected upgrade followed by another was answered ${statuses}`)
+}
+
+async function testForwardedForIgnored() {
+  getConnectionManager({ maxConnectionsPerIP: 1 })
+  const statuses = [
+    await statusOf(upgrade, { headers: { 'X-Forwarded-For': '203.0.113.1' } }),
+    await statusOf(upgrade, { headers: { 'X-Forwarded-For': '203.0.113.2' } }),
+  ]
+  if (statuses.join() === '101,503') pass('X-Forwarded-For is ignored without trustProxy')
+  else fail(`X-Forwarded-For without trustProxy answered ${statuses}`)
+}
+
+async function testMaxConnectionsPerIP() {
+  getConnectionManager({ maxConnectionsPerIP: 1 })
+  const from = (address) => ({
+    headers: { 'X-Forwarded-For': `${address}, 198.51.100.7` },
+    adapterOptions: { trustProxy: ['198.51.100.7'] },
+  })
+  const statuses = [
+    await statusOf(upgrade, from('203.0.113.1')),
+    await statusOf(upgrade, from('203.0.113.1')),
+    await statusOf(upgrade, from('203.0.113.2')),
+  ]
+  if (statuses.join() === '101,503,101') pass('upgrades over maxConnectionsPerIP are answered with 503')
+  else fail(`maxConnectionsPerIP answered ${statuses}`)
+}
+
+async function testRateLimit() {
+  getConnectionManager({ rateLimitMaxConnections: 1, rateLimitWindow: 60_000 })
+  const client = await connectToRoute(upgrade)
+  await client.close()
+  try {
+    await connectToRoute(upgrade)
+    fail('the second upgrade within the window was accepted')
+  } catch (err) {
+    if (!(err instanceof UpgradeRejectedError)) throw err
+    const { status, headers } = err.response
+    if (status === 429 && Number(headers.get('Retry-After')) > 0) pass('upgrades over the rate limit are answered with 429 and Retry-After')
+    else fail(`the rate limit answered ${status} with Retry-After ${headers.get('Retry-After')}`)
+  }
+}
+
+async function main() {
+  const tests = [
+    testMaxConnections,
+    testConcurrentUpgrades,
+    testSlotReleasedOnRejection,
+    testForwardedForIgnored,
+    testMaxConnectionsPerIP,
+    testRateLimit,
+  ]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All admission tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
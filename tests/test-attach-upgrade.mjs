@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+/**
+ * attachWebSocketUpgrade() test
+ * Attaches recording handlers to a server with different `path`
+ * options, emits upgrade requests for several paths, and checks
+ * which handler each one reaches.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import * as http from 'node:http'
+import { attachWebSocketUpgrade } from '../src/node-websocket/attach-upgrade.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * Emits an upgrade request for each url, and resolves
+ * with the urls that reached the handler and the fallback.
+ */
+function route(options, urls) {
+  const server = http.createServer()
+  const handled = []
+  const fellBack = []
+  const detach = attachWebSocketUpgrade(server, (req) => handled.push(req.url), {
+    ...options,
+    fallback: options.fallback === false ? undefined : (req) => fellBack.push(req.url),
+  })
+  for (const url of urls) server.emit('upgrade', { url }, null, Buffer.alloc(0))
+  return { handled, fellBack, server, detach }
+}
+
+function check(description, actual, expected) {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) pass(description)
+  else fail(`${description}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+}
+
+async function testEveryPath() {
+  const { handled, fellBack } = route({}, ['/', '/ws/chat'])
+  check('without path, every upgrade reaches the routes', handled, ['/', '/ws/chat'])
+  check('without path, nothing falls back', fellBack, [])
+}
+
+async function testGlob() {
+  const { handled, fellBack } = route({ path: '/ws/*' }, ['/ws/chat?room=1', '/ws/chat/1', '/other'])
+  check('a glob matches one path segment, ignoring the query', handled, ['/ws/chat?room=1'])
+  check('the paths the glob does not match fall back', fellBack, ['/ws/chat/1', '/other'])
+}
+
+async function testMatchers() {
+  const { handled } = route({ path: [/^\/live\//, (pathname) => pathname.endsWith('.socket'), '/exact'] }, [
+    '/live/feed',
+    '/api/events.socket',
+    '/exact',
+    '/exact/not',
+  ])
+  check('regular expressions, functions and paths can be combined', handled, ['/live/feed', '/api/events.socket', '/exact'])
+}
+
+async function testWithoutFallback() {
+  const { handled, server } = route({ path: '/ws', fallback: false }, ['/ws'])
+  let others = 0
+  server.on('upgrade', () => others++)
+  server.emit('upgrade', { url: '/other' }, null, Buffer.alloc(0))
+  if (handled.length === 1 && others === 1) pass('without a fallback, unmatched upgrades are left to the other listeners')
+  else fail(`without a fallback, ${handled.length} upgrades were handled and ${others} reached the other listeners`)
+}
+
+async function testDetach() {
+  const { handled, server, detach } = route({}, ['/'])
+  detach()
+  server.emit('upgrade', { url: '/after' }, null, Buffer.alloc(0))
+  check('the returned function removes the listener', handled, ['/'])
+}
+
+async function main() {
+  const tests = [testEveryPath, testGlob, testMatchers, testWithoutFallback, testDetach]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All attachWebSocketUpgrade tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
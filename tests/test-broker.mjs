@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+/**
+ * Cluster broker test
+ * Forks two workers that each connect a client to a room through
+ * the in-memory testing harness, with the cluster broker set, and
+ * checks that what one worker publishes reaches the other's client.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import cluster from 'node:cluster'
+import { connectToRoute } from '../src/node-websocket/testing.ts'
+import { rooms } from '../src/node-websocket/rooms.ts'
+import { createClusterBroker, relayClusterBrokerMessages } from '../src/node-websocket/cluster-broker.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * Joins the lobby, then reports the messages its client
+ * receives once the primary asks one worker to publish.
+ */
+async function runWorker() {
+  rooms.setBroker(createClusterBroker())
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    socket.join('lobby')
+    return response
+  })
+
+  process.on('message', (message) => {
+    if (message?.test !== 'publish') return
+    rooms.publish('lobby', 'hello')
+    rooms.publish('lobby', new Uint8Array([1, 2, 3]))
+  })
+  process.send({ test: 'ready' })
+
+  const received = []
+  for (let i = 0; i < 2; i++) {
+    const message = await client.nextMessage()
+    received.push(typeof message === 'string' ? message : [...new Uint8Array(message)])
+  }
+  // Anything more would be a message delivered twice
+  const extra = await client.nextMessage(100).then(() => true, () => false)
+  process.send({ test: 'received', received, extra })
+  process.exit(0)
+}
+
+function nextMessage(worker, test) {
+  return new Promise(resolve => worker.on('message', function listener(message) {
+    if (message?.test !== test) return
+    worker.off('message', listener)
+    resolve(message)
+  }))
+}
+
+async function testPublishAcrossWorkers() {
+  const stopRelaying = relayClusterBrokerMessages()
+  const workers = [cluster.fork(), cluster.fork()]
+  try {
+    await Promise.all(workers.map(worker => nextMessage(worker, 'ready')))
+    const reports = workers.map(worker => nextMessage(worker, 'received'))
+    workers[0].send({ test: 'publish' })
+    const [publisher, other] = await Promise.all(reports)
+
+    const expected = JSON.stringify(['hello', [1, 2, 3]])
+    if (JSON.stringify(other.received) === expected) pass('messages published in one worker reach the members in another')
+    else fail(`the other worker's member received ${JSON.stringify(other.received)}`)
+
+    if (JSON.stringify(publisher.received) === expected && !publisher.extra && !other.extra) pass('each member receives a message once')
+    else fail(`the publisher's member received ${JSON.stringify(publisher.received)}, extra messages: ${publisher.extra}, ${other.extra}`)
+  } finally {
+    stopRelaying()
+    for (const worker of workers) worker.kill()
+  }
+}
+
+async function main() {
+  const tests = [testPublishAcrossWorkers]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All broker tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+if (cluster.isWorker) runWorker()
+else main()
@@ -0,0 +1,233 @@
+#!/usr/bin/env node
+
+/**
+ * Cloudflare dev server test
+ * Runs the upgrade handler the Cloudflare adapter adds to `astro dev`
+ * against a stand-in for the Vite dev server, whose Astro handler runs
+ * the dev middleware, the adapter's middleware and a route, and checks
+ * that the route's sockets are connected to real clients with `ws`.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import * as http from 'node:http'
+import * as net from 'node:net'
+import * as ws from 'ws'
+import { handleUpgradeRequests, onRequest as devMiddleware } from '../src/cloudflare-websocket/dev-middleware.ts'
+import { onRequest as adapterMiddleware } from '../src/cloudflare-websocket/middleware.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * Starts a server with the dev upgrade handler, rendering `route`
+ * through the dev middleware and the adapter's middleware, like
+ * Astro's dev handler would. Resolves with the server.
+ */
+async function startDevServer(route, { withAstroHandler = true } = {}) {
+  function astroDevHandler(req) {
+    const headers = new Headers()
+    for (const [name, value] of Object.entries(req.headers)) headers.set(name, [value].flat().join(', '))
+    const context = { request: new Request(`http://${req.headers.host}${req.url}`, { headers }), locals: {} }
+    devMiddleware(context, () => adapterMiddleware(context, async () => route(context))).catch(() => {})
+  }
+  const httpServer = http.createServer()
+  const viteDevServer = {
+    middlewares: { stack: withAstroHandler ? [{ handle: astroDevHandler }] : [] },
+    httpServer,
+  }
+  handleUpgradeRequests(viteDevServer, { info() {}, error() {} })
+  await new Promise(resolve => httpServer.listen(0, '127.0.0.1', resolve))
+  return httpServer
+}
+
+/**
+ * Opens a socket to `server`, and resolves with it and
+ * the handshake response once it is open. Messages are
+ * queued from the start, as the ones the route sent before
+ * the handshake can arrive along with the 101 response.
+ */
+function connect(server, protocols) {
+  const client = new ws.WebSocket(`ws://127.0.0.1:${server.address().port}/`, protocols)
+  const messages = []
+  const waiting = []
+  client.on('message', (data, isBinary) => {
+    const message = isBinary ? data : data.toString()
+    const resolve = waiting.shift()
+    if (resolve) resolve(message)
+    else messages.push(message)
+  })
+  client.nextMessage = () => messages.length > 0
+    ? Promise.resolve(messages.shift())
+    : new Promise(resolve => waiting.push(resolve))
+  return new Promise((resolve, reject) => {
+    let response
+    client.once('upgrade', res => { response = res })
+    client.once('open', () => resolve({ client, response }))
+    client.once('unexpected-response', (_req, res) => reject(new Error(`The upgrade was answered with ${res.statusCode}`)))
+    client.once('error', reject)
+  })
+}
+
+/**
+ * Sends an upgrade request to `server`, and resolves with
+ * the status line of the response once its head arrives.
+ */
+function upgrade(server, headers = []) {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(server.address().port, '127.0.0.1')
+    let received = ''
+    socket.setEncoding('utf8')
+    socket.on('data', data => {
+      received += data
+      if (!received.includes('\r\n\r\n')) return
+      resolve(received.split('\r\n')[0])
+      socket.destroy()
+    })
+    socket.on('error', reject)
+    socket.on('close', () => resolve(received.split('\r\n')[0]))
+    socket.write([
+      'GET / HTTP/1.1',
+      'Host: 127.0.0.1',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+      'Sec-WebSocket-Version: 13',
+      ...headers,
+      '', '',
+    ].join('\r\n'))
+  })
+}
+
+async function testEcho() {
+  const server = await startDevServer(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket({ protocols: ['chat'] })
+    // Sent before the handshake completes
+    socket.send('welcome')
+    socket.onmessage = event => socket.send(`echo: ${event.data}`)
+    response.headers.set('Set-Cookie', 'session=1')
+    return response
+  })
+  try {
+    const { client, response } = await connect(server, ['other', 'chat'])
+    const welcome = await client.nextMessage()
+    if (welcome === 'welcome') pass('messages sent before the handshake are delivered after it')
+    else fail(`the first message was ${JSON.stringify(welcome)}`)
+
+    client.send('hello')
+    const echo = await client.nextMessage()
+    if (echo === 'echo: hello') pass('the route\'s socket receives and answers messages')
+    else fail(`the echo was ${JSON.stringify(echo)}`)
+
+    if (client.protocol === 'chat') pass('the protocol the route selected is negotiated')
+    else fail(`the negotiated protocol is ${JSON.stringify(client.protocol)}`)
+
+    if (response.headers['set-cookie']?.[0] === 'session=1') pass('headers of the route\'s 101 response are sent with the handshake')
+    else fail(`the handshake had Set-Cookie ${JSON.stringify(response.headers['set-cookie'])}`)
+
+    client.close()
+  } finally {
+    server.close()
+  }
+}
+
+async function testClientClose() {
+  let resolveClose
+  const closed = new Promise(resolve => { resolveClose = resolve })
+  const server = await startDevServer(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    socket.onclose = event => resolveClose(event)
+    return response
+  })
+  try {
+    const { client } = await connect(server)
+    client.close(4000, 'bye')
+    const event = await closed
+    if (event.code === 4000 && event.reason === 'bye') pass('the route\'s socket gets the code and reason of the client\'s close')
+    else fail(`the route's socket closed with ${event.code} ${JSON.stringify(event.reason)}`)
+  } finally {
+    server.close()
+  }
+}
+
+async function testServerClose() {
+  const server = await startDevServer(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    socket.onmessage = () => socket.close(4001, 'done')
+    return response
+  })
+  try {
+    const { client } = await connect(server)
+    const closed = new Promise(resolve => client.once('close', (code, reason) => resolve([code, reason.toString()])))
+    client.send('close please')
+    const [code, reason] = await closed
+    if (code === 4001 && reason === 'done') pass('the client gets the code and reason of the route\'s close')
+    else fail(`the client closed with ${code} ${JSON.stringify(reason)}`)
+  } finally {
+    server.close()
+  }
+}
+
+async function testRejection() {
+  const server = await startDevServer(() => new Response('Not allowed', { status: 403 }))
+  try {
+    const status = await upgrade(server)
+    if (status.startsWith('HTTP/1.1 403')) pass('a route that does not upgrade answers with its own response')
+    else fail(`the rejected upgrade was answered with ${JSON.stringify(status)}`)
+  } finally {
+    server.close()
+  }
+}
+
+async function testViteUpgradesIgnored() {
+  let renders = 0
+  const server = await startDevServer(() => {
+    renders++
+    return new Response(null, { status: 403 })
+  })
+  // Vite's own listener answers these in `astro dev`
+  server.on('upgrade', (req, socket) => {
+    if (req.headers['sec-websocket-protocol'] === 'vite-hmr') socket.end('HTTP/1.1 418 I\'m a teapot\r\n\r\n')
+  })
+  try {
+    const status = await upgrade(server, ['Sec-WebSocket-Protocol: vite-hmr'])
+    if (status.startsWith('HTTP/1.1 418') && renders === 0) pass('Vite\'s HMR upgrades are left to Vite')
+    else fail(`an HMR upgrade was answered with ${JSON.stringify(status)} after ${renders} renders`)
+  } finally {
+    server.close()
+  }
+}
+
+async function testMissingAstroHandler() {
+  const server = await startDevServer(() => new Response(null), { withAstroHandler: false })
+  try {
+    const status = await upgrade(server)
+    if (status.startsWith('HTTP/1.1 500')) pass('without Astro\'s dev handler, upgrades are answered with 500')
+    else fail(`without Astro's dev handler, the upgrade was answered with ${JSON.stringify(status)}`)
+  } finally {
+    server.close()
+  }
+}
+
+async function main() {
+  const tests = [testEcho, testClientClose, testServerClose, testRejection, testViteUpgradesIgnored, testMissingAstroHandler]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All Cloudflare dev server tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
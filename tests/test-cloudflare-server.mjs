@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+
+/**
+ * Cloudflare upgrade handler test
+ * Runs `createWebSocketHandler()` with a stand-in for the app and a
+ * recording `WebSocketPair`, and checks that pairs are only created by
+ * `upgradeWebSocket()`, that unused pairs are closed, and that the 101
+ * response keeps the route's headers.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { createWebSocketHandler } from '../src/cloudflare-websocket/server.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * One end of a pair, recording what is done with it
+ */
+class FakeWebSocket extends EventTarget {
+  readyState = 1
+  url = ''
+  accepted = false
+  closedWith = undefined
+  accept() { this.accepted = true }
+  send() {}
+  close(code, reason) { this.closedWith = [code, reason] }
+}
+
+let pairs = []
+
+class FakeWebSocketPair {
+  constructor() {
+    this[0] = new FakeWebSocket()
+    this[1] = new FakeWebSocket()
+    pairs.push({ client: this[0], server: this[1] })
+  }
+}
+
+globalThis.WebSocketPair = FakeWebSocketPair
+
+/**
+ * Runs `route` for an upgrade request through the handler,
+ * with the locals the handler passes to the app.
+ */
+function handle(route, protocols) {
+  const app = { render: (request, { locals }) => route({ request, locals }) }
+  const headers = new Headers({ Upgrade: 'websocket', Connection: 'Upgrade' })
+  if (protocols) headers.set('Sec-WebSocket-Protocol', protocols)
+  const ctx = { waitUntil() {}, passThroughOnException() {} }
+  return createWebSocketHandler(app, {})(new Request('http://localhost/ws', { headers }), {}, ctx)
+}
+
+async function testNoPairWithoutUpgrade() {
+  const response = await handle(() => new Response('Sign in first', { status: 401 }))
+  if (response.status === 401 && await response.text() === 'Sign in first') pass('a route that does not upgrade answers with its own response')
+  else fail(`a route that does not upgrade was answered with ${response.status}`)
+  if (pairs.length === 0) pass('no pair is created when the route does not call upgradeWebSocket()')
+  else fail(`${pairs.length} pairs were created for a route that does not upgrade`)
+}
+
+async function testNoPairWhenProtocolRejected() {
+  const response = await handle(({ locals }) => locals.upgradeWebSocket({ protocols: ['chat'] }).response, 'other')
+  if (response.status === 400 && pairs.length === 0) pass('no pair is created when upgradeWebSocket() rejects the protocols')
+  else fail(`a rejected protocol was answered with ${response.status}, after creating ${pairs.length} pairs`)
+}
+
+async function testUnusedPairClosed() {
+  const response = await handle(({ locals }) => {
+    locals.upgradeWebSocket()
+    return new Response(null, { status: 403 })
+  })
+  const [pair] = pairs
+  if (response.status === 403 && pair?.server.accepted && pair.server.closedWith?.[0] === 1011) {
+    pass('the pair of an upgrade the route discards is closed with 1011')
+  } else {
+    fail(`a discarded upgrade was answered with ${response.status}, and its pair was closed with ${JSON.stringify(pair?.server.closedWith)}`)
+  }
+}
+
+async function testOnlyReturnedPairKept() {
+  const response = await handle(({ locals }) => {
+    locals.upgradeWebSocket()
+    return locals.upgradeWebSocket().response
+  })
+  const [first, second] = pairs
+  if (response.status === 101 && response.webSocket === second.client) pass('the 101 response hands over the client of the pair the route returned')
+  else fail(`the response was ${response.status}, with ${response.webSocket === first.client ? 'the first' : 'another'} client`)
+  if (first.server.closedWith?.[0] === 1011 && second.server.closedWith === undefined) pass('only the pairs the route did not return are closed')
+  else fail(`the first pair was closed with ${JSON.stringify(first.server.closedWith)}, and the second with ${JSON.stringify(second.server.closedWith)}`)
+}
+
+async function testHeadersKept() {
+  const response = await handle(({ locals }) => {
+    const { response } = locals.upgradeWebSocket({ protocols: ['chat'] })
+    response.headers.append('Set-Cookie', 'session=1')
+    response.headers.set('X-Room', 'lobby')
+    return response
+  }, 'other, chat')
+  const headers = response.headers
+  if (response.status === 101 && headers.get('Set-Cookie') === 'session=1' && headers.get('X-Room') === 'lobby') {
+    pass('the route\'s headers are kept on the 101 response')
+  } else {
+    fail(`the 101 response has headers ${JSON.stringify([...headers])}`)
+  }
+  if (headers.get('Sec-WebSocket-Protocol') === 'chat') pass('the negotiated protocol is kept on the 101 response')
+  else fail(`the 101 response has the protocol ${JSON.stringify(headers.get('Sec-WebSocket-Protocol'))}`)
+}
+
+async function testRecreatedResponse() {
+  // As a middleware that copies the response would return it
+  const response = await handle(({ locals }) => {
+    locals.upgradeWebSocket({ protocols: ['chat'] })
+    return { status: 101, headers: new Headers({ 'Set-Cookie': 'session=1' }) }
+  }, 'chat')
+  const [pair] = pairs
+  if (response.status === 101 && response.webSocket === pair.client && pair.server.closedWith === undefined) {
+    pass('a 101 response recreated without its client gets the client of the last pair')
+  } else {
+    fail(`a recreated 101 response was answered with ${response.status}, and its pair was closed with ${JSON.stringify(pair?.server.closedWith)}`)
+  }
+  if (response.headers.get('Set-Cookie') === 'session=1' && response.headers.get('Sec-WebSocket-Protocol') === 'chat') {
+    pass('a recreated 101 response keeps its headers, and gets the negotiated protocol')
+  } else {
+    fail(`a recreated 101 response has headers ${JSON.stringify([...response.headers])}`)
+  }
+}
+
+async function testRenderErrorClosesPairs() {
+  let thrown
+  try {
+    await handle(({ locals }) => {
+      locals.upgradeWebSocket()
+      throw new Error('render failed')
+    })
+  } catch (error) {
+    thrown = error
+  }
+  if (thrown?.message === 'render failed' && pairs[0]?.server.closedWith?.[0] === 1011) pass('when the route throws, its pairs are closed and the error is rethrown')
+  else fail(`the route threw ${thrown?.message}, and its pair was closed with ${JSON.stringify(pairs[0]?.server.closedWith)}`)
+}
+
+async function main() {
+  const tests = [
+    testNoPairWithoutUpgrade,
+    testNoPairWhenProtocolRejected,
+    testUnusedPairClosed,
+    testOnlyReturnedPairKept,
+    testHeadersKept,
+    testRecreatedResponse,
+    testRenderErrorClosesPairs,
+  ]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      pairs = []
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All Cloudflare upgrade handler tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
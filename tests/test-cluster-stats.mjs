@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+/**
+ * Cluster stats test
+ * Enables cluster stats with an in-memory broker, on which another
+ * worker's reports are published by hand, and checks the totals
+ * of `getConnectionStats({ scope: "cluster" })`.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections } from '../src/node-websocket/testing.ts'
+import { WebSocketStats } from '../src/node-websocket/stats.ts'
+import { createMemoryBroker } from '../src/node-websocket/broker.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+function delay(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Publishes a message as the worker "peer" would.
+ */
+function publishAsPeer(broker, message) {
+  broker.publish('stats', { origin: 'peer', data: JSON.stringify(message) })
+}
+
+const peerReport = {
+  workerId: 'peer',
+  pid: 1,
+  reportedAt: 0,
+  totalConnections: 2,
+  totalConnectionsEver: 5,
+  totalConnectionsClosed: 3,
+  averageAge: 1000,
+  averageIdleTime: 100,
+  connectionsByState: { CONNECTING: 0, OPEN: 2, CLOSING: 0, CLOSED: 0 },
+  rooms: { lobby: 2 },
+}
+
+function connectToLobby() {
+  return connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    socket.join('lobby')
+    return response
+  })
+}
+
+async function testWithoutBroker() {
+  await connectToLobby()
+  const stats = WebSocketStats.getConnectionStats({ scope: 'cluster' })
+  if (stats.totalConnections === 1 && stats.workers.length === 1 && stats.workers[0].self) pass('without a broker, the cluster is the current process')
+  else fail(`without a broker, the cluster stats were ${JSON.stringify(stats)}`)
+}
+
+async function testTotals() {
+  const broker = createMemoryBroker()
+  const reports = []
+  broker.subscribe('stats', message => reports.push(JSON.parse(message.data)))
+  WebSocketStats.enableClusterStats(broker, { interval: 20, staleAfter: 60, forgetAfter: 1000 })
+  await connectToLobby()
+  await delay(30)
+
+  const own = reports.at(-1)?.report
+  if (own?.totalConnections === 1 && own.rooms.lobby === 1) pass('the process publishes its stats through the broker')
+  else fail(`the process published ${JSON.stringify(own)}`)
+
+  publishAsPeer(broker, { type: 'report', report: peerReport })
+  await delay(0)
+  const stats = WebSocketStats.getConnectionStats({ scope: 'cluster' })
+  if (stats.totalConnections === 3 && stats.rooms.lobby === 3 && stats.connectionsByState.OPEN === 3 && stats.workers.length === 2) {
+    pass('the stats of the other workers are added up')
+  } else {
+    fail(`with another worker, the cluster stats were ${JSON.stringify({ ...stats, workers: stats.workers.length })}`)
+  }
+
+  await delay(80)
+  const stale = WebSocketStats.getConnectionStats({ scope: 'cluster' })
+  if (stale.totalConnections === 1 && stale.staleWorkers === 1) pass('workers that stopped reporting are left out of the totals')
+  else fail(`after the other worker stopped reporting, the totals were ${stale.totalConnections}, with ${stale.staleWorkers} stale workers`)
+
+  publishAsPeer(broker, { type: 'leave' })
+  await delay(0)
+  if (WebSocketStats.getConnectionStats({ scope: 'cluster' }).workers.length === 1) pass('workers that leave are no longer listed')
+  else fail('a worker that left is still listed')
+}
+
+async function main() {
+  const tests = [testWithoutBroker, testTotals]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All cluster stats tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
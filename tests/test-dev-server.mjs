@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+
+/**
+ * Dev server test
+ * Runs the upgrade handler of `astro dev` against a stand-in for the
+ * Vite dev server, whose Astro handler runs the dev middleware and a
+ * route, and checks that admission works like it does in production,
+ * and that sockets are closed when their route changes.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { EventEmitter } from 'node:events'
+import * as http from 'node:http'
+import * as net from 'node:net'
+import * as path from 'node:path'
+import * as ws from 'ws'
+import { handleDevUpgrade, handleUpgradeRequests, onRequest, setDevRoutes } from '../src/node-websocket/dev-middleware.ts'
+import { resetConnections } from '../src/node-websocket/testing.ts'
+import { getConnectionManager } from '../src/node-websocket/connection-manager.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * Starts a server with the dev upgrade handler, rendering `route`
+ * through the dev middleware like Astro's dev handler would.
+ * Resolves with the server, and the watcher of the Vite server.
+ *
+ * In middleware mode, Vite has no server of its own, and the
+ * server passes its upgrades to `handleDevUpgrade()`.
+ */
+async function startDevServer(route, { middlewareMode = false, withAstroHandler = true } = {}) {
+  function astroDevHandler(req) {
+    const context = { locals: req[Symbol.for('astro.locals')], routePattern: '/' }
+    onRequest(context, async () => route(context)).catch(() => {})
+  }
+  const httpServer = http.createServer()
+  const viteDevServer = {
+    config: { root: process.cwd() },
+    watcher: new EventEmitter(),
+    moduleGraph: { getModulesByFile: () => undefined },
+    middlewares: { stack: withAstroHandler ? [{ handle: astroDevHandler }] : [] },
+    httpServer: middlewareMode ? null : httpServer,
+  }
+  handleUpgradeRequests(viteDevServer, undefined, { info() {}, error() {} })
+  if (middlewareMode) {
+    httpServer.on('upgrade', (req, socket, head) => {
+      if (!handleDevUpgrade(req, socket, head)) socket.end('HTTP/1.1 426 Upgrade Required\r\n\r\n')
+    })
+  }
+  await new Promise(resolve => httpServer.listen(0, '127.0.0.1', resolve))
+  return { server: httpServer, watcher: viteDevServer.watcher }
+}
+
+/**
+ * Opens a socket to `server`, and resolves once it is open.
+ */
+function connect(server) {
+  const client = new ws.WebSocket(`ws://127.0.0.1:${server.address().port}/`)
+  return new Promise((resolve, reject) => {
+    client.once('open', () => resolve(client))
+    client.once('error', reject)
+  })
+}
+
+/**
+ * Sends an upgrade request to `server`, and resolves with
+ * the status line of the response once its head arrives.
+ */
+function upgrade(server, headers = []) {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(server.address().port, '127.0.0.1')
+    let received = ''
+    socket.setEncoding('utf8')
+    socket.on('data', data => {
+      received += data
+      if (!received.includes('\r\n\r\n')) return
+      resolve(received.split('\r\n')[0])
+      socket.destroy()
+    })
+    socket.on('error', reject)
+    socket.on('close', () => resolve(received.split('\r\n')[0]))
+    socket.write([
+      'GET / HTTP/1.1',
+      'Host: 127.0.0.1',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+      'Sec-WebSocket-Version: 13',
+      ...headers,
+      '', '',
+    ].join('\r\n'))
+  })
+}
+
+async function testUpgradeTimeout() {
+  getConnectionManager({ upgradeTimeout: 50, maxConnections: 1 })
+  let renders = 0
+  const { server } = await startDevServer(async () => {
+    // Stalls until well after the upgrade timed out
+    if (renders++ === 0) await new Promise(resolve => setTimeout(resolve, 200))
+    return new Response(null, { status: 403 })
+  })
+  try {
+    const first = await upgrade(server)
+    if (first.startsWith('HTTP/1.1 408')) pass('an upgrade that stalls under astro dev is answered with 408')
+    else fail(`a stalled upgrade was answered with ${JSON.stringify(first)}`)
+
+    const second = await upgrade(server)
+    if (second.startsWith('HTTP/1.1 403')) pass('an upgrade that timed out frees its slot')
+    else fail(`the upgrade after a timeout was answered with ${JSON.stringify(second)}`)
+  } finally {
+    server.close()
+  }
+}
+
+async function testRouteChange() {
+  const { server, watcher } = await startDevServer(({ locals }) => locals.upgradeWebSocket().response)
+  setDevRoutes([{ pattern: '/', entrypoint: 'src/pages/index.ts' }, { pattern: '/other', entrypoint: 'src/pages/other.ts' }])
+  try {
+    const client = await connect(server)
+    const closed = new Promise(resolve => client.once('close', (code, reason) => resolve(`${code} ${reason}`)))
+
+    watcher.emit('change', path.resolve('src/pages/other.ts'))
+    const stillOpen = await Promise.race([closed, new Promise(resolve => setTimeout(() => resolve('open'), 50))])
+    if (stillOpen === 'open') pass('changes to other routes leave the socket open')
+    else fail(`a change to another route closed the socket with ${stillOpen}`)
+
+    watcher.emit('change', path.resolve('src/pages/index.ts'))
+    const close = await closed
+    if (close === '1012 Service Restart') pass('a change to the route closes its sockets with 1012')
+    else fail(`a change to the route closed its socket with ${close}`)
+  } finally {
+    server.close()
+  }
+}
+
+async function testMiddlewareMode() {
+  const { server } = await startDevServer(({ locals }) => locals.upgradeWebSocket().response, { middlewareMode: true })
+  try {
+    const client = await connect(server)
+    pass('in middleware mode, upgrades passed to handleDevUpgrade() reach the routes')
+    client.close()
+
+    const status = await upgrade(server, ['Sec-WebSocket-Protocol: vite-hmr'])
+    if (status.startsWith('HTTP/1.1 426')) pass('handleDevUpgrade() leaves Vite\'s HMR connections to the host server')
+    else fail(`an HMR connection was answered with ${JSON.stringify(status)}`)
+  } finally {
+    server.close()
+  }
+}
+
+async function testMissingAstroHandler() {
+  const { server } = await startDevServer(() => {}, { withAstroHandler: false })
+  try {
+    const status = await upgrade(server)
+    if (status.startsWith('HTTP/1.1 500')) pass('upgrades are answered with 500 when Astro\'s handler is not found')
+    else fail(`without Astro's handler, an upgrade was answered with ${JSON.stringify(status)}`)
+  } finally {
+    server.close()
+  }
+}
+
+async function main() {
+  const tests = [testUpgradeTimeout, testRouteChange, testMiddlewareMode, testMissingAstroHandler]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All dev server tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
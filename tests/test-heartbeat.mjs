@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+/**
+ * Heartbeat test
+ * Checks that routes with the `heartbeat` option ping their peers
+ * and record the round-trip time, and that a peer that stops
+ * answering is given up on after `maxMissedPongs` pings.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { EventEmitter } from 'node:events'
+import { connectToRoute, resetConnections } from '../src/node-websocket/testing.ts'
+import { startHeartbeat } from '../src/node-websocket/heartbeat.ts'
+import { WebSocketStats } from '../src/node-websocket/stats.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+function delay(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Stands in for a `ws` socket whose peer never answers pings.
+ */
+class SilentPeer extends EventEmitter {
+  OPEN = 1
+  readyState = 1
+  pings = 0
+
+  ping() {
+    this.pings++
+  }
+}
+
+async function testRoundTrip() {
+  const client = await connectToRoute(({ locals }) => locals.upgradeWebSocket({ heartbeat: { interval: 20 } }).response)
+  await delay(70)
+
+  const id = WebSocketStats.getConnectionId(client.socket)
+  const connection = WebSocketStats.getConnectionStats().connections.find(connection => connection.id === id)
+  if (typeof connection?.roundTripTime === 'number') pass('the round-trip time of answered pings is recorded')
+  else fail(`the connection's round-trip time is ${connection?.roundTripTime}`)
+
+  if (client.readyState === client.socket.OPEN) pass('a peer that answers pings stays connected')
+  else fail(`a peer that answers pings is in state ${client.readyState}`)
+}
+
+async function testSilentPeer() {
+  const peer = new SilentPeer()
+  let timeouts = 0
+  startHeartbeat(peer, { interval: 10, maxMissedPongs: 2 }, {
+    onRoundTrip() {},
+    onTimeout: () => timeouts++,
+  })
+  await delay(75)
+
+  if (timeouts === 1 && peer.pings === 2) pass('a peer is given up on after maxMissedPongs unanswered pings')
+  else fail(`after ${peer.pings} unanswered pings, the heartbeat timed out ${timeouts} times`)
+}
+
+async function testPongResetsMissed() {
+  const peer = new SilentPeer()
+  let timeouts = 0
+  startHeartbeat(peer, { interval: 10, maxMissedPongs: 1 }, {
+    onRoundTrip() {},
+    onTimeout: () => timeouts++,
+  })
+  const answer = setInterval(() => peer.emit('pong'), 5)
+  await delay(60)
+  clearInterval(answer)
+  peer.emit('close')
+
+  if (timeouts === 0 && peer.pings > 1) pass('answered pings keep the peer alive')
+  else fail(`a peer that answered ${peer.pings} pings timed out ${timeouts} times`)
+}
+
+async function main() {
+  const tests = [testRoundTrip, testSilentPeer, testPongResetsMissed]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All heartbeat tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
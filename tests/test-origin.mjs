@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+/**
+ * Origin allowlist test
+ * Runs routes through the in-memory testing harness with different
+ * `Origin` headers, and checks which upgrades are answered with 403.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections, UpgradeRejectedError } from '../src/node-websocket/testing.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+const adapterOptions = { allowedOrigins: ['https://*.example.com'] }
+
+/**
+ * Resolves with 101 when a route that upgrades with `options`
+ * accepts a request from `origin`, or with the rejection's status.
+ */
+async function statusFor(origin, options) {
+  try {
+    await connectToRoute(({ locals }) => locals.upgradeWebSocket(options).response, {
+      headers: origin ? { Origin: origin } : {},
+      adapterOptions,
+    })
+    return 101
+  } catch (err) {
+    if (err instanceof UpgradeRejectedError) return err.response.status
+    throw err
+  }
+}
+
+function check(description, actual, expected) {
+  if (actual === expected) pass(description)
+  else fail(`${description}: expected ${expected}, got ${actual}`)
+}
+
+async function testAdapterList() {
+  check('origins matching the adapter\'s globs are allowed', await statusFor('https://app.example.com'), 101)
+  check('other origins are answered with 403', await statusFor('https://evil.example'), 403)
+  check('the app\'s own origin is allowed', await statusFor('http://localhost'), 101)
+  check('requests without an Origin header are allowed', await statusFor(undefined), 101)
+}
+
+async function testRouteList() {
+  const partner = { allowedOrigins: ['https://app.example.com'] }
+  check('a route\'s list allows the origins it shares with the adapter\'s', await statusFor('https://app.example.com', partner), 101)
+  check('a route\'s list narrows the adapter\'s', await statusFor('https://admin.example.com', partner), 403)
+  check('a route cannot allow an origin the adapter rejects', await statusFor('https://partner.example', { allowedOrigins: ['https://partner.example'] }), 403)
+  check('the app\'s own origin is allowed with a route\'s list', await statusFor('http://localhost', partner), 101)
+
+  const matcher = { allowedOrigins: (origin) => origin.startsWith('https://app.') }
+  check('a route can allow origins with a function', await statusFor('https://app.example.com', matcher), 101)
+  check('a route\'s function rejects the others', await statusFor('https://admin.example.com', matcher), 403)
+}
+
+async function testRejectedBeforeRender() {
+  let renders = 0
+  const route = ({ locals }) => {
+    renders++
+    return locals.upgradeWebSocket().response
+  }
+  try {
+    await connectToRoute(route, { headers: { Origin: 'https://evil.example' }, adapterOptions })
+    fail('the upgrade from another origin was accepted')
+  } catch (err) {
+    if (!(err instanceof UpgradeRejectedError)) throw err
+    if (err.response.status === 403 && renders === 0) pass('origins the adapter rejects do not render the route')
+    else fail(`the rejection was ${err.response.status} after ${renders} renders`)
+  }
+}
+
+async function main() {
+  const tests = [testAdapterList, testRouteList, testRejectedBeforeRender]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All origin tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
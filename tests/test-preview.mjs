@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+
+/**
+ * astro preview patch test
+ * Runs the server.ts and preview.ts modifications of the Node build script
+ * on copies of the upstream adapter's files, and checks that the preview
+ * server gets the upgrade handler that the server entrypoint exports.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { applyServerModifications, applyPreviewModifications } from '../scripts/dynamic-build-node.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+// The parts of @astrojs/node's server.ts and preview.ts the build script patches
+const upstreamServer = `import { NodeApp } from 'astro/app/node';
+import { createMiddleware } from './middleware.js';
+import startServer, { createStandaloneHandler } from './standalone.js';
+
+export function createExports(manifest: SSRManifest, options: Options) {
+	const app = new NodeApp(manifest, !options.experimentalDisableStreaming);
+	options.trailingSlash = manifest.trailingSlash;
+	return {
+		options: options,
+		handler:
+			options.mode === 'middleware' ? createMiddleware(app, options) : createStandaloneHandler(app, options),
+		startServer: () => startServer(app, options),
+	};
+}
+`
+
+const upstreamPreview = `import type { createExports } from './server.js';
+import { createServer } from './standalone.js';
+
+type ServerModule = ReturnType<typeof createExports>;
+type MaybeServerModule = Partial<ServerModule>;
+
+const createPreviewServer: CreatePreviewServer = async (preview) => {
+	let ssrHandler: ServerModule['handler'];
+	let options: ServerModule['options'];
+	try {
+		process.env.ASTRO_NODE_AUTOSTART = 'disabled';
+		const ssrModule: MaybeServerModule = await import(preview.serverEntrypoint.toString());
+		if (typeof ssrModule.handler === 'function') {
+			ssrHandler = ssrModule.handler;
+			options = ssrModule.options!;
+		} else {
+			throw new AstroError(\`The server entrypoint doesn't have a handler. Are you sure this is the right file?\`);
+		}
+	} catch (err) {
+		throw err;
+	}
+	const host = preview.host ?? 'localhost';
+	const port = preview.port ?? 4321;
+	const server = createServer(ssrHandler, host, port);
+
+	logListeningOn(preview.logger, server.server, host);
+	return server;
+};
+`
+
+let srcDir
+
+function setup(files) {
+  srcDir = mkdtempSync(join(tmpdir(), 'preview-patch-'))
+  for (const [name, content] of Object.entries(files)) writeFileSync(join(srcDir, name), content)
+}
+
+function read(name) {
+  return readFileSync(join(srcDir, name), 'utf-8')
+}
+
+/** Runs the patch with console output captured, so warnings can be checked */
+function quietly(patch) {
+  const output = []
+  const { log: consoleLog, warn } = console
+  console.log = console.warn = (...args) => output.push(args.join(' '))
+  try {
+    patch(srcDir)
+  } finally {
+    console.log = consoleLog
+    console.warn = warn
+  }
+  return output.join('\n')
+}
+
+async function testServerExportsHandler() {
+  setup({ 'server.ts': upstreamServer })
+  quietly(applyServerModifications)
+  const content = read('server.ts')
+  if (content.includes("import { createWebsocketHandler } from './websocket/serve-websocket.js';")) {
+    pass('server.ts imports createWebsocketHandler')
+  } else {
+    fail('server.ts does not import createWebsocketHandler')
+  }
+  if (content.includes('websocketHandler: createWebsocketHandler(app, options.websocket)')) {
+    pass('createExports() returns the upgrade handler')
+  } else {
+    fail(`createExports() does not return the upgrade handler:\n${content}`)
+  }
+}
+
+async function testPreviewAttachesHandler() {
+  setup({ 'preview.ts': upstreamPreview })
+  const output = quietly(applyPreviewModifications)
+  const content = read('preview.ts')
+  const declared = content.indexOf("let websocketHandler: ServerModule['websocketHandler'] | undefined;")
+  const assigned = content.indexOf('websocketHandler = ssrModule.websocketHandler;')
+  const created = content.indexOf('const server = createServer(ssrHandler, host, port);')
+  const attached = content.indexOf("if (websocketHandler) server.server.on('upgrade', websocketHandler);")
+  if (declared !== -1 && declared < assigned && assigned < created && created < attached) {
+    pass('the preview server hands upgrades to the server entrypoint\'s handler')
+  } else {
+    fail(`the upgrade handler is not attached to the preview server:\n${content}`)
+  }
+  if (content.includes("\n\tif (websocketHandler) server.server.on")) {
+    pass('the added lines keep the indentation of the lines they follow')
+  } else {
+    fail('the added lines are not indented like their neighbours')
+  }
+  if (output.includes('Added WebSocket support to preview.ts')) pass('the patch reports success')
+  else fail(`the patch did not report success: ${output}`)
+}
+
+async function testPreviewPatchedOnce() {
+  setup({ 'preview.ts': upstreamPreview })
+  quietly(applyPreviewModifications)
+  const once = read('preview.ts')
+  quietly(applyPreviewModifications)
+  if (read('preview.ts') === once) pass('patching preview.ts twice changes nothing')
+  else fail('patching preview.ts twice adds the upgrade handler again')
+}
+
+async function testUnknownPreviewWarns() {
+  const changed = upstreamPreview.replace('const server = createServer(ssrHandler, host, port);', 'const server = startPreview(ssrHandler, { host, port });')
+  setup({ 'preview.ts': changed })
+  const output = quietly(applyPreviewModifications)
+  if (output.includes('upgrades will not work in astro preview')) pass('a preview.ts the patch does not recognize is reported')
+  else fail(`no warning for a preview.ts the patch does not recognize: ${output}`)
+}
+
+async function main() {
+  const tests = [testServerExportsHandler, testPreviewAttachesHandler, testPreviewPatchedOnce, testUnknownPreviewWarns]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      if (srcDir) rmSync(srcDir, { recursive: true, force: true })
+      srcDir = undefined
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All astro preview patch tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
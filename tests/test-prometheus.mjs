@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+
+/**
+ * Prometheus exporter test
+ * Runs a few connections through the in-memory testing harness,
+ * then reads the metrics route, and checks the samples it serves.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections, UpgradeRejectedError } from '../src/node-websocket/testing.ts'
+import { GET } from '../src/node-websocket/metrics.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+function echo({ locals }) {
+  const { socket, response } = locals.upgradeWebSocket()
+  socket.onmessage = (event) => socket.send(event.data)
+  return response
+}
+
+/**
+ * The samples served by the metrics route, by name and labels.
+ */
+async function scrape() {
+  const response = GET()
+  const samples = new Map()
+  for (const line of (await response.text()).split('\n')) {
+    if (line === '' || line.startsWith('#')) continue
+    const separator = line.lastIndexOf(' ')
+    samples.set(line.slice(0, separator), Number(line.slice(separator + 1)))
+  }
+  return { contentType: response.headers.get('Content-Type'), samples }
+}
+
+function check(samples, sample, expected) {
+  const actual = samples.get(sample)
+  if (actual === expected) pass(`${sample} is ${expected}`)
+  else fail(`${sample} is ${actual}, expected ${expected}`)
+}
+
+async function testTraffic() {
+  const open = await connectToRoute(echo)
+  open.send('hello')
+  await open.nextMessage()
+
+  const closed = await connectToRoute(echo)
+  await closed.close(4000)
+
+  try {
+    await connectToRoute(() => new Response(null, { status: 403 }))
+  } catch (err) {
+    if (!(err instanceof UpgradeRejectedError)) throw err
+  }
+
+  const { contentType, samples } = await scrape()
+  if (contentType?.startsWith('text/plain; version=0.0.4')) pass('the metrics are served in the text exposition format')
+  else fail(`the metrics are served as ${contentType}`)
+
+  check(samples, 'zastro_websocket_connections{state="open"}', 1)
+  check(samples, 'zastro_websocket_upgrades_total{result="accepted"}', 2)
+  check(samples, 'zastro_websocket_upgrades_total{result="rejected",status="403"}', 1)
+  check(samples, 'zastro_websocket_messages_total{direction="in"}', 1)
+  check(samples, 'zastro_websocket_messages_total{direction="out"}', 1)
+  check(samples, 'zastro_websocket_bytes_total{direction="out"}', 5)
+  check(samples, 'zastro_websocket_closes_total{code="4000"}', 1)
+  check(samples, 'zastro_websocket_connection_duration_seconds_bucket{le="+Inf"}', 1)
+  check(samples, 'zastro_websocket_connection_duration_seconds_count', 1)
+}
+
+async function main() {
+  const tests = [testTraffic]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All Prometheus tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Subprotocol negotiation test
+ * Runs routes with the `protocols` option through the in-memory
+ * testing harness, with different protocols offered by the client,
+ * and checks which one is selected, or that the upgrade is refused.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections, UpgradeRejectedError } from '../src/node-websocket/testing.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * Resolves with the protocol the client and the route agreed on,
+ * with the protocol the route's socket reports, or with the
+ * status of the rejection.
+ */
+async function negotiate(offered, protocols) {
+  try {
+    const client = await connectToRoute(({ locals }) => locals.upgradeWebSocket({ protocols }).response, { protocols: offered })
+    if (client.protocol !== client.socket.protocol) return `client ${client.protocol}, route ${client.socket.protocol}`
+    return client.protocol
+  } catch (err) {
+    if (err instanceof UpgradeRejectedError) return err.response.status
+    throw err
+  }
+}
+
+function check(description, actual, expected) {
+  if (actual === expected) pass(description)
+  else fail(`${description}: expected ${expected}, got ${actual}`)
+}
+
+async function testList() {
+  check('the route\'s preferred protocol is selected', await negotiate(['chat.v1', 'chat.v2'], ['chat.v2', 'chat.v1']), 'chat.v2')
+  check('a protocol the client offers is selected', await negotiate(['chat.v1'], ['chat.v2', 'chat.v1']), 'chat.v1')
+  check('upgrades without a common protocol are answered with 400', await negotiate(['other'], ['chat.v2']), 400)
+  check('upgrades without any protocol are answered with 400', await negotiate([], ['chat.v2']), 400)
+}
+
+async function testFunction() {
+  const selector = (offered) => offered.find(protocol => protocol.startsWith('chat.'))
+  check('a function picks among the offered protocols', await negotiate(['other', 'chat.v3'], selector), 'chat.v3')
+  check('a function that picks none refuses the upgrade', await negotiate(['other'], selector), 400)
+  check('a function cannot pick a protocol the client did not offer', await negotiate(['other'], () => 'chat.v1'), 400)
+}
+
+async function testWithoutOption() {
+  check('without the option, the first offered protocol is accepted', await negotiate(['a', 'b'], undefined), 'a')
+  check('without the option or an offer, no protocol is selected', await negotiate([], undefined), '')
+}
+
+async function main() {
+  const tests = [testList, testFunction, testWithoutOption]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All subprotocol tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
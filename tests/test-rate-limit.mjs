@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+/**
+ * Message rate limit test
+ * Runs an echo route through the in-memory testing harness and checks
+ * what each rate limit policy does with the messages over the limit.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections } from '../src/node-websocket/testing.ts'
+import { WebSocketStats } from '../src/node-websocket/stats.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * Connects to a route that echoes every message it receives,
+ * and counts the "ratelimit" events of its socket.
+ */
+async function connectToEcho(rateLimit) {
+  const limited = { count: 0 }
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket({ rateLimit })
+    socket.onmessage = (event) => socket.send(event.data)
+    socket.addEventListener('ratelimit', () => limited.count++)
+    return response
+  })
+  return { client, limited }
+}
+
+async function testClosePolicy() {
+  const { client, limited } = await connectToEcho({ rate: 1, burst: 2, policy: 'close' })
+  for (const message of ['a', 'b', 'c']) client.send(message)
+
+  const received = [await client.nextMessage(), await client.nextMessage()]
+  const { code, reason } = await client.closed
+  if (received.join() === 'a,b' && code === 1008 && reason === 'Rate limit exceeded') {
+    pass('"close" delivers the burst, then closes with 1008')
+  } else {
+    fail(`"close" delivered ${JSON.stringify(received)} and closed with ${code} ${reason}`)
+  }
+  if (limited.count === 1) pass('"close" fires "ratelimit" for the message over the limit')
+  else fail(`"close" fired "ratelimit" ${limited.count} times`)
+}
+
+async function testDropPolicy() {
+  const { client, limited } = await connectToEcho({ rate: 10, burst: 2, policy: 'drop' })
+  for (const message of ['a', 'b', 'c', 'd']) client.send(message)
+  // One token is refilled every 100ms
+  await new Promise(resolve => setTimeout(resolve, 150))
+  client.send('e')
+
+  const received = [await client.nextMessage(), await client.nextMessage(), await client.nextMessage()]
+  if (received.join() === 'a,b,e') pass('"drop" discards the messages over the limit')
+  else fail(`"drop" delivered ${JSON.stringify(received)}`)
+
+  const { messagesRateLimited } = WebSocketStats.getMetrics()
+  if (limited.count === 2 && messagesRateLimited === 2) pass('"drop" counts the discarded messages in the stats')
+  else fail(`"drop" fired "ratelimit" ${limited.count} times and counted ${messagesRateLimited}`)
+}
+
+async function testDelayPolicy() {
+  const { client, limited } = await connectToEcho({ rate: 20, burst: 1, policy: 'delay' })
+  const start = Date.now()
+  for (const message of ['a', 'b', 'c']) client.send(message)
+
+  const received = [await client.nextMessage(), await client.nextMessage(), await client.nextMessage()]
+  const elapsed = Date.now() - start
+  if (received.join() === 'a,b,c') pass('"delay" delivers every message in order')
+  else fail(`"delay" delivered ${JSON.stringify(received)}`)
+
+  // Two messages over the limit, at one every 50ms
+  if (elapsed >= 90 && limited.count === 2) pass('"delay" holds the messages over the limit')
+  else fail(`"delay" delivered three messages in ${elapsed}ms, and fired "ratelimit" ${limited.count} times`)
+}
+
+async function main() {
+  const tests = [testClosePolicy, testDropPolicy, testDelayPolicy]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All rate limit tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
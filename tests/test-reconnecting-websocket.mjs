@@ -0,0 +1,195 @@
+#!/usr/bin/env node
+
+/**
+ * Reconnecting client test
+ * Runs the browser client against a stand-in WebSocket class whose
+ * connections the test opens, feeds and drops, and checks when it
+ * reconnects, gives up, and what it sends on each connection.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { ReconnectingWebSocket } from '../src/client/reconnecting-websocket.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+function delay(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Stands in for the browser's WebSocket. Each connection the
+ * client makes is kept in `connections`, for the test to drive.
+ */
+class FakeWebSocket {
+  static connections = []
+  readyState = 0
+  protocol = ''
+  sent = []
+
+  constructor(url) {
+    this.url = new URL(url)
+    FakeWebSocket.connections.push(this)
+  }
+
+  open() {
+    this.readyState = 1
+    this.onopen?.(new Event('open'))
+  }
+
+  receive(data) {
+    this.onmessage?.({ data })
+  }
+
+  drop(code = 1006) {
+    this.readyState = 3
+    this.onclose?.({ code, reason: '', wasClean: code !== 1006 })
+  }
+
+  send(data) {
+    this.sent.push(data)
+  }
+
+  close() {
+    this.readyState = 3
+  }
+
+  static get latest() {
+    return FakeWebSocket.connections.at(-1)
+  }
+}
+
+function connect(options = {}) {
+  FakeWebSocket.connections = []
+  return new ReconnectingWebSocket('ws://localhost/chat', {
+    WebSocket: FakeWebSocket,
+    backoff: { initialDelay: 10, jitter: 0 },
+    ...options,
+  })
+}
+
+async function testReconnect() {
+  const socket = connect()
+  const attempts = []
+  socket.addEventListener('reconnecting', event => attempts.push(event.detail))
+  FakeWebSocket.latest.open()
+  FakeWebSocket.latest.drop(1001)
+  await delay(20)
+  FakeWebSocket.latest.drop(1006)
+  await delay(30)
+
+  if (FakeWebSocket.connections.length === 3 && socket.status === 'reconnecting') pass('the client reconnects after the connection drops')
+  else fail(`after two drops, the client made ${FakeWebSocket.connections.length} connections and is ${socket.status}`)
+
+  if (attempts.map(({ delay }) => delay).join() === '10,20') pass('the delay between attempts grows exponentially')
+  else fail(`the attempts were ${JSON.stringify(attempts)}`)
+
+  FakeWebSocket.latest.open()
+  if (socket.status === 'open' && socket.attempt === 0) pass('a successful connection resets the attempts')
+  else fail(`after reconnecting, the client is ${socket.status} after ${socket.attempt} attempts`)
+  socket.close()
+}
+
+async function testNonRetryableClose() {
+  const socket = connect()
+  FakeWebSocket.latest.open()
+  FakeWebSocket.latest.drop(1008)
+  await delay(30)
+  if (socket.status === 'closed' && FakeWebSocket.connections.length === 1) pass('the client does not reconnect after 1008')
+  else fail(`after 1008, the client is ${socket.status} with ${FakeWebSocket.connections.length} connections`)
+}
+
+async function testMaxRetries() {
+  const socket = connect({ maxRetries: 2 })
+  for (let i = 0; i < 3; i++) {
+    FakeWebSocket.latest.drop()
+    await delay(40)
+  }
+  if (socket.status === 'closed' && FakeWebSocket.connections.length === 3) pass('the client gives up after maxRetries failed attempts')
+  else fail(`with maxRetries 2, the client made ${FakeWebSocket.connections.length} connections and is ${socket.status}`)
+}
+
+async function testHeartbeatTimeout() {
+  const socket = connect({ heartbeat: { interval: 20, message: 'ping' } })
+  const closes = []
+  socket.addEventListener('close', event => closes.push(`${event.code} ${event.reason}`))
+  FakeWebSocket.latest.open()
+  // A ping after 20ms, unanswered for 20ms, then a reconnect after 10ms
+  await delay(100)
+
+  if (closes[0] === '1006 Heartbeat timeout' && FakeWebSocket.connections.length === 2) pass('a silent connection is replaced after the heartbeat timeout')
+  else fail(`after the heartbeat timed out, the closes were ${JSON.stringify(closes)}, with ${FakeWebSocket.connections.length} connections`)
+
+  if (FakeWebSocket.connections[0].sent[0] === 'ping') pass('the heartbeat message is sent')
+  else fail(`the first connection sent ${JSON.stringify(FakeWebSocket.connections[0].sent)}`)
+  socket.close()
+}
+
+async function testHeartbeatTimeoutWithoutRetries() {
+  const socket = connect({ heartbeat: { interval: 20 }, maxRetries: 0 })
+  FakeWebSocket.latest.open()
+  await delay(100)
+  if (socket.status === 'closed' && FakeWebSocket.connections.length === 1) pass('heartbeat timeouts follow maxRetries')
+  else fail(`with maxRetries 0, the client is ${socket.status} after the heartbeat timed out, with ${FakeWebSocket.connections.length} connections`)
+}
+
+async function testQueue() {
+  const socket = connect({ maxQueuedMessages: 2 })
+  for (const message of ['a', 'b', 'c']) socket.send(message)
+  FakeWebSocket.latest.open()
+  if (FakeWebSocket.latest.sent.join() === 'b,c') pass('messages sent while connecting are sent on open, keeping the newest')
+  else fail(`on open, the client sent ${JSON.stringify(FakeWebSocket.latest.sent)}`)
+  socket.close()
+}
+
+async function testSessionResume() {
+  const socket = connect()
+  const received = []
+  socket.addEventListener('message', event => received.push(event.data))
+  FakeWebSocket.latest.open()
+  FakeWebSocket.latest.receive(JSON.stringify({ type: 'zastro:session', token: 'abc', seq: 0, resumed: false }))
+  FakeWebSocket.latest.receive('one')
+  FakeWebSocket.latest.receive('two')
+  FakeWebSocket.latest.drop()
+  await delay(30)
+
+  const { searchParams } = FakeWebSocket.latest.url
+  if (searchParams.get('ws-session') === 'abc' && searchParams.get('ws-ack') === '2') pass('the client resumes its session with the number of messages it received')
+  else fail(`the client reconnected to ${FakeWebSocket.latest.url}`)
+
+  if (received.join() === 'one,two') pass('the session\'s control message is kept out of the message events')
+  else fail(`the message events were ${JSON.stringify(received)}`)
+  socket.close()
+}
+
+async function main() {
+  const tests = [
+    testReconnect,
+    testNonRetryableClose,
+    testMaxRetries,
+    testHeartbeatTimeout,
+    testHeartbeatTimeoutWithoutRetries,
+    testQueue,
+    testSessionResume,
+  ]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All reconnecting client tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
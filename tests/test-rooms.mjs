@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+
+/**
+ * Rooms test
+ * Runs a chat route through the in-memory testing harness and checks
+ * room membership and what each member receives from rooms.publish().
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections } from '../src/node-websocket/testing.ts'
+import { rooms } from '../src/node-websocket/rooms.ts'
+import { createMemoryBroker } from '../src/node-websocket/broker.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * Joins the room named by `?room`, and relays
+ * every message to the other members.
+ */
+function route({ url, locals }) {
+  const { socket, response } = locals.upgradeWebSocket()
+  const room = url.searchParams.get('room')
+  socket.join(room)
+  socket.onmessage = (event) => rooms.publish(room, event.data, { except: socket })
+  return response
+}
+
+function join(room) {
+  return connectToRoute(route, { url: `http://localhost/?room=${room}` })
+}
+
+async function testPublish() {
+  const alice = await join('lobby')
+  const bob = await join('lobby')
+  const carol = await join('other')
+
+  alice.send('hello')
+  const message = await bob.nextMessage()
+  if (message === 'hello') pass('members receive the messages published to their room')
+  else fail(`a member received ${JSON.stringify(message)}`)
+
+  const recipients = rooms.publish('lobby', 'to everyone')
+  const received = [await alice.nextMessage(), await bob.nextMessage()]
+  if (recipients === 2 && received.join() === 'to everyone,to everyone') pass('publish() returns the number of recipients')
+  else fail(`publish() returned ${recipients}, and the members received ${JSON.stringify(received)}`)
+
+  if (rooms.publish('other', 'only carol') === 1 && await carol.nextMessage() === 'only carol') pass('rooms are separate')
+  else fail('a message reached another room')
+}
+
+async function testMembership() {
+  const alice = await join('lobby')
+  const bob = await join('lobby')
+
+  if (rooms.size('lobby') === 2 && alice.socket.rooms.has('lobby')) pass('members are listed once they join')
+  else fail(`the lobby has ${rooms.size('lobby')} members`)
+
+  bob.socket.leave('lobby')
+  if (rooms.size('lobby') === 1 && !rooms.has(bob.socket, 'lobby')) pass('leave() removes the socket from the room')
+  else fail(`after leave(), the lobby has ${rooms.size('lobby')} members`)
+
+  await alice.close()
+  await alice.closed
+  if (!rooms.list().includes('lobby')) pass('a room disappears when its last member closes')
+  else fail(`the lobby still has ${rooms.size('lobby')} members after they closed`)
+}
+
+async function testBroker() {
+  // Stands in for another process that shares the broker
+  const broker = createMemoryBroker()
+  const received = []
+  const unsubscribe = broker.subscribe('room:lobby', (message) => received.push(message.data))
+  rooms.setBroker(broker)
+  try {
+    const alice = await join('lobby')
+    rooms.publish('lobby', 'local')
+    await alice.nextMessage()
+    // The broker delivers asynchronously
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    if (received.join() === 'local') pass('messages are published through the broker')
+    else fail(`the broker carried ${JSON.stringify(received)}`)
+
+    broker.publish('room:lobby', { origin: 'another-process', data: 'remote' })
+    const message = await alice.nextMessage()
+    if (message === 'remote') pass('messages from other processes reach the local members')
+    else fail(`a message from the broker was delivered as ${JSON.stringify(message)}`)
+  } finally {
+    unsubscribe()
+    rooms.setBroker(undefined)
+  }
+}
+
+async function main() {
+  const tests = [testPublish, testMembership, testBroker]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All rooms tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+
+/**
+ * Send queue behavior test
+ * Runs routes through the in-memory testing harness and checks the
+ * outbound queue policies and what happens to sends around a close.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections } from '../src/node-websocket/testing.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+function settle(promise) {
+  return promise.then(() => 'resolved', (error) => error.name)
+}
+
+async function testQueuePolicy() {
+  const results = []
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket({ sendQueue: { highWaterMark: 10, policy: 'queue' } })
+    // Held until the socket opens, well above the high-water mark
+    for (const message of ['aaaaaaaa', 'bbbbbbbb', 'cccccccc']) results.push(settle(socket.sendAsync(message)))
+    return response
+  })
+
+  const received = [await client.nextMessage(), await client.nextMessage(), await client.nextMessage()]
+  if (received.join() === 'aaaaaaaa,bbbbbbbb,cccccccc') pass('"queue" delivers every message in order')
+  else fail(`"queue" delivered ${JSON.stringify(received)}`)
+
+  const settled = await Promise.all(results)
+  if (settled.every(result => result === 'resolved')) pass('"queue" resolves sendAsync() once written')
+  else fail(`"queue" settled sendAsync() with ${settled}`)
+}
+
+async function testDropOldestPolicy() {
+  const results = []
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket({ sendQueue: { highWaterMark: 20, policy: 'drop-oldest' } })
+    // Messages sent by "open" listeners are queued until they return,
+    // and the third one takes the queue above the high-water mark
+    socket.addEventListener('open', () => {
+      for (const message of ['aaaaaaaa', 'bbbbbbbb', 'cccccccc']) results.push(settle(socket.sendAsync(message)))
+    })
+    return response
+  })
+
+  const received = [await client.nextMessage(), await client.nextMessage()]
+  if (received.join() === 'bbbbbbbb,cccccccc') pass('"drop-oldest" keeps the newest messages')
+  else fail(`"drop-oldest" delivered ${JSON.stringify(received)}`)
+
+  const settled = await Promise.all(results)
+  if (settled.join() === 'AbortError,resolved,resolved') pass('"drop-oldest" rejects the dropped messages with AbortError')
+  else fail(`"drop-oldest" settled sendAsync() with ${settled}`)
+}
+
+async function testClosePolicy() {
+  let result
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket({ sendQueue: { highWaterMark: 10, policy: 'close' } })
+    socket.addEventListener('open', () => {
+      result = settle(socket.sendAsync('x'.repeat(20)))
+    })
+    return response
+  })
+
+  const { code, reason } = await client.closed
+  if (code === 1008 && reason === 'Send buffer overflow') pass('"close" closes the connection with 1008')
+  else fail(`"close" closed with ${code} ${reason}`)
+
+  if (await result === 'QuotaExceededError') pass('"close" rejects the overflowing message with QuotaExceededError')
+  else fail(`"close" settled sendAsync() with ${await result}`)
+}
+
+async function testBackpressure() {
+  let bufferedBeforeOpen
+  let drains = 0
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket({ sendQueue: { highWaterMark: 10 } })
+    socket.send('aaaaaaaa')
+    socket.send('bbbbbbbb')
+    bufferedBeforeOpen = socket.bufferedAmount
+    socket.addEventListener('drain', () => drains++)
+    return response
+  })
+
+  await client.nextMessage()
+  await client.nextMessage()
+  if (bufferedBeforeOpen === 16) pass('bufferedAmount counts the held messages')
+  else fail(`bufferedAmount was ${bufferedBeforeOpen} with 16 bytes held`)
+
+  if (drains === 1 && client.socket.bufferedAmount === 0) pass('"drain" fires once the buffer falls below the high-water mark')
+  else fail(`"drain" fired ${drains} times, and bufferedAmount is ${client.socket.bufferedAmount}`)
+}
+
+async function testAbortSignal() {
+  const controller = new AbortController()
+  let result
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    result = settle(socket.sendAsync('aborted', { signal: controller.signal }))
+    socket.send('kept')
+    controller.abort()
+    return response
+  })
+
+  const message = await client.nextMessage()
+  if (message === 'kept') pass('an aborted message is removed from the queue')
+  else fail(`the first message after an abort was ${JSON.stringify(message)}`)
+
+  if (await result === 'AbortError') pass('sendAsync() rejects with the signal\'s reason')
+  else fail(`an aborted sendAsync() settled with ${await result}`)
+}
+
+async function testCloseAfterSends() {
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    socket.send('first')
+    socket.send('second')
+    socket.close(4000, 'bye')
+    return response
+  })
+
+  const received = [await client.nextMessage(), await client.nextMessage()]
+  const { code } = await client.closed
+  if (received.join() === 'first,second' && code === 4000) pass('close() is sent after the messages held before it')
+  else fail(`close() after sends delivered ${JSON.stringify(received)} and closed with ${code}`)
+}
+
+async function testSendAfterPeerClosed() {
+  const client = await connectToRoute(({ locals }) => locals.upgradeWebSocket().response)
+  const { socket } = client
+  await client.terminate()
+  if (socket.readyState !== socket.CLOSED) {
+    await new Promise(resolve => socket.addEventListener('close', resolve, { once: true }))
+  }
+
+  const results = []
+  for (let i = 0; i < 100; i++) results.push(settle(socket.sendAsync('x'.repeat(1000))))
+  socket.send('discarded')
+
+  if (socket.bufferedAmount === 0) pass('sends after the peer closed are not buffered')
+  else fail(`bufferedAmount is ${socket.bufferedAmount} after the peer closed`)
+
+  const settled = await Promise.all(results)
+  if (settled.every(result => result === 'InvalidStateError')) pass('sendAsync() rejects after the peer closed')
+  else fail(`sendAsync() after the peer closed settled with ${[...new Set(settled)]}`)
+}
+
+async function main() {
+  const tests = [
+    testQueuePolicy,
+    testDropOldestPolicy,
+    testClosePolicy,
+    testBackpressure,
+    testAbortSignal,
+    testCloseAfterSends,
+    testSendAfterPeerClosed,
+  ]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All send queue tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
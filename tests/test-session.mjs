@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+
+/**
+ * Resumable session test
+ * Runs a route with the `session` option through the in-memory testing
+ * harness, drops the connection, and checks what the client gets after
+ * reconnecting. Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections, UpgradeRejectedError } from '../src/node-websocket/testing.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+/**
+ * Greets every connection, and answers with 403 after
+ * calling `upgradeWebSocket()` when `?reject` is set.
+ */
+function route({ url, locals }) {
+  const { socket, response } = locals.upgradeWebSocket({ session: true })
+  socket.send('welcome')
+  if (url.searchParams.has('reject')) return new Response(null, { status: 403 })
+  return response
+}
+
+function resumeUrl(token, ack, extra = '') {
+  return `http://localhost/?ws-session=${token}&ws-ack=${ack}${extra}`
+}
+
+async function testNewSession() {
+  const client = await connectToRoute(route)
+  const control = await client.nextJSON()
+  const greeting = await client.nextMessage()
+
+  if (control.type === 'zastro:session' && control.seq === 0 && control.resumed === false) pass('a new session starts with the control message')
+  else fail(`the first message was ${JSON.stringify(control)}`)
+
+  if (greeting === 'welcome') pass('messages sent while the route renders follow the control message')
+  else fail(`the second message was ${JSON.stringify(greeting)}`)
+}
+
+async function testResume() {
+  const first = await connectToRoute(route)
+  const { token } = await first.nextJSON()
+  await first.nextMessage() // welcome, seq 1
+  const { session } = first.socket
+  session.send('a')
+  session.send('b')
+  await first.nextMessage()
+  await first.terminate()
+  // Held for the client while it is away
+  session.send('c')
+
+  // The client only got the welcome message and "a"
+  const second = await connectToRoute(route, { url: resumeUrl(token, 2) })
+  const control = await second.nextJSON()
+  const received = [await second.nextMessage(), await second.nextMessage(), await second.nextMessage()]
+
+  if (control.resumed === true && control.seq === 2 && control.token === token) pass('the session is resumed from the acknowledged message')
+  else fail(`the control message after resuming was ${JSON.stringify(control)}`)
+
+  if (received.join() === 'b,c,welcome') pass('the missed messages are replayed before the new ones')
+  else fail(`after resuming, the client received ${JSON.stringify(received)}`)
+
+  if (second.socket.session === session) pass('socket.session is the same session after resuming')
+  else fail('socket.session is another session after resuming')
+}
+
+async function testRejectedResume() {
+  const first = await connectToRoute(route)
+  const { token } = await first.nextJSON()
+  await first.nextMessage()
+
+  try {
+    await connectToRoute(route, { url: resumeUrl(token, 1, '&reject') })
+    fail('the rejected upgrade was accepted')
+  } catch (err) {
+    if (!(err instanceof UpgradeRejectedError)) throw err
+  }
+
+  if (first.readyState === first.socket.OPEN) pass('a rejected upgrade leaves the session\'s socket open')
+  else fail(`the session's socket is in state ${first.readyState} after a rejected upgrade`)
+
+  first.socket.session.send('still here')
+  const message = await first.nextMessage()
+  if (message === 'still here') pass('the session keeps sending to its socket after a rejected upgrade')
+  else fail(`after a rejected upgrade, the socket received ${JSON.stringify(message)}`)
+}
+
+async function testResumeFailsWhileRendering() {
+  let routeSession
+  // Keeps a single message for replay
+  const shortRoute = ({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket({ session: { maxMessages: 1 } })
+    routeSession = socket.session
+    return response
+  }
+  const first = await connectToRoute(shortRoute)
+  const { token } = await first.nextJSON()
+  routeSession.send('missed')
+  await first.nextMessage()
+  await first.terminate()
+
+  const second = await connectToRoute((context) => {
+    const response = shortRoute(context)
+    routeSession.data.set('user', 'alice')
+    // Pushes the message the client missed out of the buffer
+    routeSession.send('x')
+    return response
+  }, { url: resumeUrl(token, 0) })
+  const control = await second.nextJSON()
+
+  if (control.resumed === false && control.seq === 0 && control.token !== token) pass('a session whose missed messages were discarded while rendering starts over')
+  else fail(`the control message after a failed resume was ${JSON.stringify(control)}`)
+
+  if (second.socket.session === routeSession && routeSession.data.get('user') === 'alice') pass('the route keeps its session object when it starts over')
+  else fail('socket.session is another session than the one the route used')
+
+  routeSession.send('after')
+  const message = await second.nextMessage()
+  if (message === 'after') pass('the session the route holds sends to the new socket')
+  else fail(`the new socket received ${JSON.stringify(message)}`)
+}
+
+async function main() {
+  const tests = [testNewSession, testResume, testRejectedResume, testResumeFailsWhileRendering]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All session tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
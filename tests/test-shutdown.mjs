@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+/**
+ * Graceful shutdown test
+ * Starts child processes that handle shutdown signals with an open
+ * connection, sends them SIGTERM, and checks how they exit. Then
+ * shuts this process down, and checks what its connection receives.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { fork } from 'node:child_process'
+import * as http from 'node:http'
+import { connectToRoute, UpgradeRejectedError } from '../src/node-websocket/testing.ts'
+import { gracefulShutdown, handleShutdownSignals, onShutdown } from '../src/node-websocket/shutdown.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+const upgrade = ({ locals }) => locals.upgradeWebSocket().response
+
+/**
+ * Handles the shutdown signals with `options`, next to a
+ * listener of the application's own, and waits for SIGTERM.
+ */
+async function runChild(options) {
+  const server = http.createServer()
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+  await connectToRoute(upgrade)
+  handleShutdownSignals(server, { drainTimeout: 1000, ...options })
+  // Writes to a pipe are synchronous, so the line is not lost to the exit
+  process.on('SIGTERM', () => console.log('application listener'))
+  process.send('ready')
+}
+
+/**
+ * Resolves with the exit code of a child started with `options`,
+ * and the number of times its own SIGTERM listener ran.
+ */
+function terminateChild(options) {
+  return new Promise((resolve, reject) => {
+    const child = fork(process.argv[1], ['child', JSON.stringify(options)], { stdio: ['ignore', 'pipe', 'inherit', 'ipc'] })
+    let output = ''
+    child.stdout.on('data', data => output += data)
+    child.on('message', message => message === 'ready' && child.kill('SIGTERM'))
+    child.on('error', reject)
+    child.on('exit', (code, signal) => resolve({ code, signal, listenerRuns: output.split('application listener').length - 1 }))
+  })
+}
+
+async function testExitCode() {
+  const { code, signal, listenerRuns } = await terminateChild({})
+  if (code === 143 && signal === null) pass('the process exits with 128 plus the signal number after draining')
+  else fail(`the process exited with code ${code} and signal ${signal}`)
+
+  if (listenerRuns === 1) pass('the application\'s own listener runs once')
+  else fail(`the application's own listener ran ${listenerRuns} times`)
+}
+
+async function testNoExit() {
+  const { code, listenerRuns } = await terminateChild({ exit: false })
+  if (code === 0 && listenerRuns === 1) pass('with exit: false, the process is left to end on its own')
+  else fail(`with exit: false, the process exited with ${code}, and the application's listener ran ${listenerRuns} times`)
+}
+
+async function testDrain() {
+  const client = await connectToRoute(upgrade)
+  onShutdown(({ sockets }) => {
+    for (const socket of sockets) socket.send('reconnect elsewhere')
+  })
+  const shutdown = gracefulShutdown({ drainTimeout: 1000 })
+
+  const message = await client.nextMessage()
+  const { code } = await client.closed
+  if (message === 'reconnect elsewhere' && code === 1001) pass('messages sent by onShutdown() listeners arrive before the close')
+  else fail(`during the shutdown, the client received ${JSON.stringify(message)} and was closed with ${code}`)
+
+  try {
+    await connectToRoute(upgrade)
+    fail('an upgrade during the shutdown was accepted')
+  } catch (err) {
+    if (!(err instanceof UpgradeRejectedError)) throw err
+    if (err.response.status === 503) pass('upgrades during the shutdown are answered with 503')
+    else fail(`an upgrade during the shutdown was answered with ${err.response.status}`)
+  }
+  await shutdown
+}
+
+async function main() {
+  // The shutdown of this process cannot be undone, so it runs last
+  const tests = [testExitCode, testNoExit, testDrain]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All shutdown tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+if (process.argv[2] === 'child') runChild(JSON.parse(process.argv[3]))
+else main()
@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+/**
+ * Connection stats test
+ * Runs routes through the in-memory testing harness and checks
+ * what WebSocketStats records about them, and how it closes them.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections } from '../src/node-websocket/testing.ts'
+import { WebSocketStats } from '../src/node-websocket/stats.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+async function testConnectionStats() {
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    socket.onmessage = (event) => socket.send(event.data)
+    return response
+  })
+  client.send('hello')
+  await client.nextMessage()
+
+  const id = WebSocketStats.getConnectionId(client.socket)
+  const stats = WebSocketStats.getConnectionStats()
+  const connection = stats.connections.find(connection => connection.id === id)
+  if (stats.totalConnections === 1 && connection?.state === 'OPEN') pass('open connections are listed')
+  else fail(`the stats list ${stats.totalConnections} connections, and ${id} is ${connection ? '' : 'not '}among them`)
+
+  const { messagesSent, messagesReceived } = WebSocketStats.getMetrics()
+  if (messagesSent === 1 && messagesReceived === 1) pass('messages are counted')
+  else fail(`the metrics counted ${messagesSent} messages sent and ${messagesReceived} received`)
+
+  await client.close()
+  await client.closed
+  if (WebSocketStats.getConnectionStats().totalConnections === 0) pass('closed connections are removed')
+  else fail('a closed connection is still listed')
+}
+
+async function testCloseAllFlushesQueue() {
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    socket.addEventListener('open', () => {
+      // Still held in the send queue when the connections are closed
+      for (const message of ['a', 'b', 'c']) socket.send(message)
+      WebSocketStats.closeAllConnections(1001, 'Going away')
+    })
+    return response
+  })
+
+  const received = [await client.nextMessage(), await client.nextMessage(), await client.nextMessage()]
+  const { code, reason } = await client.closed
+  if (received.join() === 'a,b,c' && code === 1001 && reason === 'Going away') pass('closeAllConnections() sends the queued messages before closing')
+  else fail(`closeAllConnections() delivered ${JSON.stringify(received)} and closed with ${code} ${reason}`)
+}
+
+async function main() {
+  const tests = [testConnectionStats, testCloseAllFlushesQueue]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All stats tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+/**
+ * Streams test
+ * Runs routes that use `socket.readable`, `socket.writable` and
+ * `for await` through the in-memory testing harness, and checks
+ * the messages, the backpressure and how the streams end.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections } from '../src/node-websocket/testing.ts'
+import { WebSocketError } from '../src/node-websocket/streams.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+function delay(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function testPipe() {
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    socket.readable
+      .pipeThrough(new TransformStream({
+        transform(message, controller) {
+          controller.enqueue(String(message).toUpperCase())
+        },
+      }))
+      .pipeTo(socket.writable)
+      .catch(() => {})
+    return response
+  })
+
+  client.send('hello')
+  const message = await client.nextMessage()
+  if (message === 'HELLO') pass('messages piped from readable to writable are sent back')
+  else fail(`the piped message was ${JSON.stringify(message)}`)
+}
+
+async function testBackpressure() {
+  let readable
+  let received = 0
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    readable = socket.readable
+    socket.addEventListener('message', () => received++)
+    return response
+  })
+
+  for (let i = 0; i < 40; i++) client.send(String(i))
+  await delay(50)
+  if (received < 40) pass('the socket stops reading while the readable stream is full')
+  else fail(`all ${received} messages were read while nothing read the stream`)
+
+  const reader = readable.getReader()
+  const messages = []
+  for (let i = 0; i < 40; i++) messages.push((await reader.read()).value)
+  if (messages.join() === Array.from({ length: 40 }, (_, i) => i).join()) pass('the socket resumes once the stream is read, without losing messages')
+  else fail(`the stream delivered ${JSON.stringify(messages)}`)
+}
+
+async function testBreakCloses() {
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    ;(async () => {
+      for await (const message of socket) {
+        if (message === 'bye') break
+        socket.send(`got ${message}`)
+      }
+    })()
+    return response
+  })
+
+  client.send('a')
+  client.send('bye')
+  const message = await client.nextMessage()
+  const { code } = await client.closed
+  if (message === 'got a' && code === 1000) pass('breaking out of for await closes the socket with 1000')
+  else fail(`for await sent ${JSON.stringify(message)} and closed with ${code}`)
+}
+
+async function testUncleanClose() {
+  let readable
+  const client = await connectToRoute(({ locals }) => {
+    const { socket, response } = locals.upgradeWebSocket()
+    readable = socket.readable
+    return response
+  })
+  await client.terminate()
+
+  try {
+    await readable.getReader().read()
+    fail('the readable stream ended without an error after an unclean close')
+  } catch (err) {
+    if (err instanceof WebSocketError && err.closeCode === 1006) pass('an unclean close errors the readable stream with a WebSocketError')
+    else fail(`the readable stream errored with ${err}`)
+  }
+}
+
+async function main() {
+  const tests = [testPipe, testBackpressure, testBreakCloses, testUncleanClose]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All stream tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()
@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+/**
+ * Tracing test
+ * Sets a memory tracer, runs connections through the in-memory
+ * testing harness, and checks the spans recorded for the upgrades,
+ * the connections and their messages.
+ * Imports the TypeScript sources, so it runs with `tsx`.
+ */
+
+import { connectToRoute, resetConnections, UpgradeRejectedError } from '../src/node-websocket/testing.ts'
+import { createMemoryTracer, setTracer, SpanKind, SpanStatusCode } from '../src/node-websocket/tracing.ts'
+
+let exitCode = 0
+
+function log(msg) { console.log(`[test] ${msg}`) }
+function fail(msg) { console.error(`[FAIL] ${msg}`); exitCode = 1 }
+function pass(msg) { console.log(`[PASS] ${msg}`) }
+
+const tracer = createMemoryTracer()
+
+function echo({ locals }) {
+  const { socket, response } = locals.upgradeWebSocket()
+  socket.onmessage = (event) => socket.send(event.data)
+  return response
+}
+
+function spansNamed(name) {
+  return tracer.spans.filter(span => span.name === name)
+}
+
+async function testAcceptedUpgrade() {
+  setTracer(tracer)
+  const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01'
+  const client = await connectToRoute(echo, { headers: { traceparent }, url: 'http://localhost/chat?room=1' })
+  client.send('hello')
+  await client.nextMessage()
+  await client.close(1000)
+
+  const [upgrade] = spansNamed('websocket.upgrade')
+  if (upgrade?.kind === SpanKind.SERVER && upgrade.parent?.spanId === 'b7ad6b7169203331' && upgrade.context.traceId === '0af7651916cd43dd8448eb211c80319c') {
+    pass('the upgrade span continues the trace of the traceparent header')
+  } else {
+    fail(`the upgrade span was ${JSON.stringify(upgrade)}`)
+  }
+
+  if (upgrade?.attributes['http.response.status_code'] === 101 && upgrade.attributes['url.path'] === '/chat' && upgrade.endTime !== undefined) {
+    pass('the upgrade span ends with the 101 response')
+  } else {
+    fail(`the upgrade span has the attributes ${JSON.stringify(upgrade?.attributes)}`)
+  }
+
+  const [connection] = spansNamed('websocket.connection')
+  if (connection?.parent?.spanId === upgrade?.context.spanId && connection.endTime !== undefined && connection.attributes['websocket.close.code'] === 1000) {
+    pass('the connection span is a child of the upgrade span, and ends with the close')
+  } else {
+    fail(`the connection span was ${JSON.stringify(connection)}`)
+  }
+
+  const [event] = connection?.events ?? []
+  if (event?.name === 'websocket.message' && event.attributes['websocket.message.size'] === 5) pass('inbound messages are recorded as events')
+  else fail(`the connection span has the events ${JSON.stringify(connection?.events)}`)
+}
+
+async function testRejectedUpgrade() {
+  setTracer(tracer)
+  try {
+    await connectToRoute(() => new Response(null, { status: 500 }))
+  } catch (err) {
+    if (!(err instanceof UpgradeRejectedError)) throw err
+  }
+
+  const [upgrade] = spansNamed('websocket.upgrade')
+  if (upgrade?.attributes['websocket.upgrade.outcome'] === 'rejected' && upgrade.status.code === SpanStatusCode.ERROR) {
+    pass('a rejected upgrade ends its span with the status of the response')
+  } else {
+    fail(`the span of a rejected upgrade was ${JSON.stringify(upgrade)}`)
+  }
+  if (spansNamed('websocket.connection').length === 0) pass('a rejected upgrade has no connection span')
+  else fail('a rejected upgrade has a connection span')
+}
+
+async function testMessageSpans() {
+  setTracer(tracer, { messages: 'spans' })
+  const client = await connectToRoute(echo)
+  client.send('hello')
+  await client.nextMessage()
+
+  const [connection] = spansNamed('websocket.connection')
+  const [message] = spansNamed('websocket.message')
+  if (message?.kind === SpanKind.CONSUMER && message.parent?.spanId === connection?.context.spanId && message.endTime !== undefined) {
+    pass('with messages: "spans", each message gets a child span of the connection')
+  } else {
+    fail(`the message span was ${JSON.stringify(message)}`)
+  }
+}
+
+async function main() {
+  const tests = [testAcceptedUpgrade, testRejectedUpgrade, testMessageSpans]
+  for (const test of tests) {
+    log(`Running ${test.name}...`)
+    try {
+      await test()
+    } catch (err) {
+      fail(`${test.name}: ${err.message}`)
+    } finally {
+      await resetConnections()
+      setTracer(undefined)
+      tracer.reset()
+    }
+  }
+
+  if (exitCode === 0) {
+    console.log('\n✅ All tracing tests passed')
+  } else {
+    console.log('\n❌ Some tests failed')
+  }
+  process.exit(exitCode)
+}
+
+main()